@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { AppVersionFile } from './plugin-config.js';
+import { renderTemplate } from './template.js';
+
+/**
+ * Read a value from a dotted path inside parsed JSON.
+ *
+ * @param obj Parsed JSON document.
+ * @param key Dotted path such as `version` or `engines.app`.
+ * @returns The value at the path or `undefined`.
+ */
+function readDotted(obj: unknown, key: string): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>(
+      (acc, part) =>
+        typeof acc === 'object' && acc !== null
+          ? (acc as Record<string, unknown>)[part]
+          : undefined,
+      obj,
+    );
+}
+
+/**
+ * Parse a JSON appVersion source.
+ *
+ * @param text Content of the file.
+ * @param file Configured file name, for the error details.
+ * @returns The parsed document.
+ * @throws SemanticReleaseError when the file is not valid JSON.
+ */
+function parseJsonSource(text: string, file: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err: unknown) {
+    throw new SemanticReleaseError(
+      'appVersion source is not valid JSON.',
+      'EAPPVERSIONSOURCE',
+      `Cannot parse ${file} to read the chart appVersion: ` +
+        (err instanceof Error ? err.message : String(err)),
+    );
+  }
+}
+
+/**
+ * Resolve the `appVersion` to write for a chart released as `version`.
+ * `true` copies the version, a string is rendered as a template with
+ * `${version}`, and a file source is read relative to `cwd`: JSON files
+ * at the configured key, other files by their first non-empty line.
+ *
+ * @param source Configured appVersion source.
+ * @param version Version the chart is released under.
+ * @param cwd Repository root.
+ * @returns The appVersion, or `undefined` when not configured.
+ * @throws SemanticReleaseError when the file source is missing, empty
+ *         or, for JSON files, malformed.
+ */
+export function resolveAppVersion(
+  source: true | string | AppVersionFile | undefined,
+  version: string,
+  cwd: string,
+): string | undefined {
+  if (source === undefined) {
+    return undefined;
+  }
+  if (source === true) {
+    return version;
+  }
+  if (typeof source === 'string') {
+    return renderTemplate(source, { version });
+  }
+
+  const filePath = path.resolve(cwd, source.file);
+  if (!fs.existsSync(filePath)) {
+    throw new SemanticReleaseError(
+      'appVersion source file not found.',
+      'EAPPVERSIONSOURCE',
+      `Expected ${source.file} to exist to read the chart appVersion.`,
+    );
+  }
+  const text = fs.readFileSync(filePath, 'utf8');
+  const value = filePath.endsWith('.json')
+    ? readDotted(parseJsonSource(text, source.file), source.key ?? 'version')
+    : text.split('\n').find((line) => line.trim().length > 0);
+  if (
+    (typeof value !== 'string' && typeof value !== 'number') ||
+    String(value).trim().length === 0
+  ) {
+    throw new SemanticReleaseError(
+      'appVersion source is empty.',
+      'EAPPVERSIONSOURCE',
+      `No appVersion found in ${source.file}` +
+        (filePath.endsWith('.json')
+          ? ` at "${source.key ?? 'version'}".`
+          : '.'),
+    );
+  }
+  return String(value).trim();
+}
@@ -0,0 +1,318 @@
+// @ts-expect-error semantic-release types are not bundled
+import { Context } from 'semantic-release';
+import { runHostCmd } from './command-runner.js';
+
+/**
+ * Release types understood by semantic-release, ordered from lowest to
+ * highest impact.
+ */
+export type ReleaseType = 'patch' | 'minor' | 'major';
+
+/**
+ * How commits are attributed to charts in independent versioning mode:
+ * by the files they touch, by their conventional-commit scope, or by
+ * either of the two.
+ */
+export type CommitMatch = 'path' | 'scope' | 'any';
+
+/**
+ * Minimal commit shape consumed from the semantic-release context. Only
+ * the hash and the full message are required here.
+ */
+export interface ReleaseCommit {
+  hash: string;
+  message: string;
+}
+
+/**
+ * A chart as seen by commit attribution: its directory relative to the
+ * repository root and its Chart.yaml name.
+ */
+export interface ChartRef {
+  path: string;
+  name: string;
+}
+
+/**
+ * Parsed conventional-commit header. Scopes are split on commas so that
+ * `fix(api,web): ...` attributes the commit to both charts.
+ */
+export interface ConventionalHeader {
+  type?: string;
+  scopes: string[];
+  breaking: boolean;
+}
+
+const RELEASE_RANK: Record<ReleaseType, number> = {
+  patch: 1,
+  minor: 2,
+  major: 3,
+};
+
+/**
+ * Parse the conventional-commit header and breaking-change footer of a
+ * commit message. Non-conventional messages yield no type and no scope.
+ *
+ * @param message Full commit message including body and footers.
+ * @returns The parsed header.
+ */
+export function parseConventionalHeader(message: string): ConventionalHeader {
+  const header = message.split('\n', 1)[0] ?? '';
+  const match = header.match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s/);
+  const footerBreaking = /^BREAKING[ -]CHANGE:/m.test(message);
+  if (!match) {
+    return { scopes: [], breaking: footerBreaking };
+  }
+  const scopes = (match[2] ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  return {
+    type: match[1].toLowerCase(),
+    scopes,
+    breaking: match[3] === '!' || footerBreaking,
+  };
+}
+
+/**
+ * Release type implied by a single commit that touched a chart.
+ * Breaking changes are major and features minor; every other change
+ * to a chart still ships as a patch so no chart edit goes unreleased.
+ *
+ * @param message Full commit message.
+ * @returns The implied release type.
+ */
+export function commitReleaseType(message: string): ReleaseType {
+  const header = parseConventionalHeader(message);
+  if (header.breaking) {
+    return 'major';
+  }
+  return header.type === 'feat' ? 'minor' : 'patch';
+}
+
+/**
+ * Return the highest-impact release type from a list, or `undefined`
+ * when the list is empty.
+ *
+ * @param types Release types to compare.
+ * @returns The highest release type or `undefined`.
+ */
+export function maxReleaseType(
+  types: Array<ReleaseType | undefined>,
+): ReleaseType | undefined {
+  return types.reduce<ReleaseType | undefined>((best, t) => {
+    if (!t) return best;
+    return !best || RELEASE_RANK[t] > RELEASE_RANK[best] ? t : best;
+  }, undefined);
+}
+
+/**
+ * Increment a semantic version by a release type. Prerelease and build
+ * metadata are dropped; a prerelease bumped by `patch` becomes its
+ * release version, matching semver precedence rules.
+ *
+ * @param version Current version, e.g. `1.2.3` or `1.3.0-rc.1`.
+ * @param type Release type to apply.
+ * @returns The next version.
+ */
+export function incrementVersion(version: string, type: ReleaseType): string {
+  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)(-[^+]+)?/);
+  const [major, minor, patch] = match
+    ? [Number(match[1]), Number(match[2]), Number(match[3])]
+    : [0, 0, 0];
+  const prerelease = Boolean(match?.[4]);
+
+  switch (type) {
+    case 'major':
+      return prerelease && minor === 0 && patch === 0
+        ? `${major}.0.0`
+        : `${major + 1}.0.0`;
+    case 'minor':
+      return prerelease && patch === 0
+        ? `${major}.${minor}.0`
+        : `${major}.${minor + 1}.0`;
+    default:
+      return prerelease
+        ? `${major}.${minor}.${patch}`
+        : `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Whether a version carries a semver prerelease suffix, such as
+ * `2.0.0-beta.1`. Build metadata alone does not make a prerelease.
+ *
+ * @param version Version to inspect.
+ * @returns True for prerelease versions.
+ */
+export function isPrereleaseVersion(version: string): boolean {
+  return /^v?\d+\.\d+\.\d+-/.test(version);
+}
+
+/**
+ * List the files changed by a commit, relative to `cwd`. Files outside
+ * `cwd` are omitted by `--relative`, and `--root` makes the initial
+ * commit report its files instead of nothing.
+ *
+ * @param hash Commit hash.
+ * @param cwd Working directory inside the repository.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns Changed file paths.
+ */
+export async function changedFiles(
+  hash: string,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<string[]> {
+  const out = await runHostCmd(
+    [
+      'git',
+      'diff-tree',
+      '--no-commit-id',
+      '--name-only',
+      '-r',
+      '--root',
+      '--relative',
+      hash,
+    ],
+    cwd,
+    logger,
+    { stream: false },
+  );
+  return out
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0);
+}
+
+/**
+ * A file touched by a commit together with its git change status:
+ * `A` (added), `M` (modified), `D` (deleted) or another diff letter.
+ */
+export interface FileChange {
+  status: string;
+  path: string;
+}
+
+/**
+ * List the files changed by a commit with their change status, relative
+ * to `cwd`. Rename detection is off, so a rename is reported as a
+ * deletion plus an addition.
+ *
+ * @param hash Commit hash.
+ * @param cwd Working directory inside the repository.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns Changed files with their status letter.
+ */
+export async function changedFilesWithStatus(
+  hash: string,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<FileChange[]> {
+  const out = await runHostCmd(
+    [
+      'git',
+      'diff-tree',
+      '--no-commit-id',
+      '--name-status',
+      '-r',
+      '--root',
+      '--relative',
+      hash,
+    ],
+    cwd,
+    logger,
+    { stream: false },
+  );
+  return out
+    .split('\n')
+    .map((l) => l.trim().split('\t'))
+    .filter((parts) => parts.length >= 2)
+    .map(([status, file]) => ({ status: status.charAt(0), path: file }));
+}
+
+/**
+ * Read a file as it existed at a given revision. Returns `undefined`
+ * when the revision or the file does not exist, such as the parent of
+ * a root commit or a file added by the commit under inspection.
+ *
+ * @param rev Revision expression, e.g. `abc123^` or `v1.2.0`.
+ * @param file Path relative to `cwd`.
+ * @param cwd Working directory inside the repository.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns File content or `undefined`.
+ */
+export async function fileAtRevision(
+  rev: string,
+  file: string,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<string | undefined> {
+  try {
+    return await runHostCmd(['git', 'show', `${rev}:./${file}`], cwd, logger, {
+      stream: false,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize a chart directory for matching against the repository
+ * relative paths git reports: no leading `./` or trailing slash, and
+ * the empty string for a chart at the repository root.
+ *
+ * @param chartPath Chart directory as configured or discovered.
+ * @returns The normalized directory.
+ */
+export function chartDir(chartPath: string): string {
+  const dir = chartPath.replace(/^\.\//, '').replace(/\/+$/, '');
+  return dir === '.' ? '' : dir;
+}
+
+/**
+ * Decide whether a file lies inside a chart directory. A chart at the
+ * repository root contains every file.
+ *
+ * @param file File path relative to the repository root.
+ * @param dir Chart directory from `chartDir`.
+ * @returns True when the file belongs to the chart directory.
+ */
+export function isInChartDir(file: string, dir: string): boolean {
+  return dir === '' || file === dir || file.startsWith(`${dir}/`);
+}
+
+/**
+ * Decide whether a commit belongs to a chart. Path matching checks for
+ * any changed file below the chart directory; scope matching compares
+ * the conventional-commit scopes with the chart name and the basename
+ * of its directory.
+ *
+ * @param commit Commit to attribute.
+ * @param files Files changed by the commit, relative to `cwd`.
+ * @param chart Chart to test against.
+ * @param match Attribution strategy.
+ * @returns True when the commit belongs to the chart.
+ */
+export function commitMatchesChart(
+  commit: ReleaseCommit,
+  files: string[],
+  chart: ChartRef,
+  match: CommitMatch,
+): boolean {
+  const dir = chartDir(chart.path);
+  const byPath = files.some((f) => isInChartDir(f, dir));
+  const { scopes } = parseConventionalHeader(commit.message);
+  const names = new Set([chart.name]);
+  if (dir) names.add(dir.split('/').pop() ?? dir);
+  const byScope = scopes.some((s) => names.has(s));
+
+  switch (match) {
+    case 'path':
+      return byPath;
+    case 'scope':
+      return byScope;
+    default:
+      return byPath || byScope;
+  }
+}
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directories that never hold releasable charts and are skipped while
+ * expanding glob patterns. Skipping them keeps discovery fast in large
+ * monorepos and avoids picking up vendored or generated content.
+ */
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist']);
+
+/**
+ * Expand a single chart pattern into candidate Chart.yaml globs. A
+ * pattern may point at a chart directory (`charts/app`), a glob of
+ * chart directories (`charts/*`), or a glob of Chart.yaml files
+ * (`charts/**\/Chart.yaml`).
+ *
+ * @param pattern Directory, directory glob, or Chart.yaml glob.
+ * @returns Glob matching the Chart.yaml files for the pattern.
+ */
+function toChartYamlGlob(pattern: string): string {
+  const trimmed = pattern.replace(/\/+$/, '');
+  return path.posix.basename(trimmed) === 'Chart.yaml'
+    ? trimmed
+    : `${trimmed}/Chart.yaml`;
+}
+
+/**
+ * Return true when `child` sits strictly inside `parent`. Both paths
+ * are repository-relative POSIX paths.
+ */
+function isNestedIn(child: string, parent: string): boolean {
+  return parent !== child && child.startsWith(`${parent}/`);
+}
+
+/**
+ * Resolve chart patterns to the chart directories that contain a
+ * Chart.yaml, relative to `cwd`. Results are de-duplicated, sorted for
+ * deterministic processing, and exclude charts nested inside another
+ * match (vendored subcharts under a parent's `charts/` folder).
+ *
+ * @param cwd Repository root used as the glob base.
+ * @param patterns Directories or glob patterns to expand.
+ * @returns Sorted list of chart directories relative to `cwd`.
+ */
+export function findCharts(cwd: string, patterns: string[]): string[] {
+  const found = new Set<string>();
+
+  for (const pattern of patterns) {
+    const matches = fs.globSync(toChartYamlGlob(pattern), {
+      cwd,
+      exclude: (name: string) => IGNORED_DIRS.has(path.basename(name)),
+    });
+    for (const match of matches) {
+      const dir = path.dirname(match).split(path.sep).join('/');
+      found.add(dir);
+    }
+  }
+
+  const dirs = [...found].sort();
+  return dirs.filter((dir) => !dirs.some((other) => isNestedIn(dir, other)));
+}
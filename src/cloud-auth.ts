@@ -0,0 +1,208 @@
+// @ts-expect-error semantic-release types are not bundled
+import { Context } from 'semantic-release';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { HelmConfig, OciAuthType } from './plugin-config.js';
+import type { RegistryCredentials } from './registry-auth.js';
+import { DockerImage, DockerImageOptions } from './docker/image.js';
+import { DockerCliClient } from './docker/cli-client.js';
+import type { DockerClient } from './docker/client.js';
+import { clientFor } from './runtime.js';
+import { registerSecrets } from './redact.js';
+
+/**
+ * Container path of the mounted Google credentials file.
+ */
+const GCP_CREDENTIALS = '/run/cloud-auth/credentials.json';
+
+/**
+ * Fixed user names the registries expect next to an exchanged token.
+ */
+const TOKEN_USERNAMES: Record<OciAuthType, string> = {
+  ecr: 'AWS',
+  gcp: 'oauth2accesstoken',
+  acr: '00000000-0000-0000-0000-000000000000',
+};
+
+/**
+ * Standard credential variables passed through to each cloud CLI by
+ * name, so their values stay in the host environment.
+ */
+const PASSTHROUGH_ENV: Record<OciAuthType, string[]> = {
+  ecr: [
+    'AWS_ACCESS_KEY_ID',
+    'AWS_SECRET_ACCESS_KEY',
+    'AWS_SESSION_TOKEN',
+    'AWS_REGION',
+    'AWS_DEFAULT_REGION',
+  ],
+  gcp: ['CLOUDSDK_CORE_PROJECT'],
+  acr: ['AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET', 'AZURE_TENANT_ID'],
+};
+
+/**
+ * A token request: the shell script printing the token and its
+ * positional parameters, the image it runs in, its container options
+ * and the user name to log in with. Scripts are fixed strings; values
+ * from the configuration reach them only as `args`.
+ */
+export interface TokenRequest {
+  type: OciAuthType;
+  image: string;
+  script: string;
+  args: string[];
+  opts: DockerImageOptions;
+  username: string;
+}
+
+/**
+ * Run a token request and return the token it prints.
+ */
+export type TokenHelper = (
+  request: TokenRequest,
+  cwd: string,
+  logger: Context['logger'],
+) => Promise<string>;
+
+/**
+ * Token helper running requests through a container client: in Docker
+ * by default, or with the cloud CLI installed on the host for the
+ * `native` runtime. The output is flagged as secret so the token is
+ * masked in logs.
+ *
+ * @param client Client that runs the request's image.
+ * @returns The token helper.
+ */
+export function clientTokenHelper(
+  client: DockerClient = new DockerCliClient(),
+): TokenHelper {
+  return async (request, cwd, logger) => {
+    const img = new DockerImage(request.image, cwd, logger, client, {
+      ...request.opts,
+      secretOutput: true,
+    });
+    return (await img.shell(request.script, request.args)).stdout;
+  };
+}
+
+/**
+ * AWS region of an ECR registry host such as
+ * `123456789012.dkr.ecr.eu-west-1.amazonaws.com`.
+ *
+ * @param host Registry host with optional port.
+ * @returns Region or `undefined` for other hosts.
+ */
+export function ecrRegion(host: string): string | undefined {
+  return host.match(/\.dkr\.ecr(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com/)?.[1];
+}
+
+/**
+ * Build the token request for the configured cloud registry:
+ * - ECR: `aws ecr get-login-password` for the configured or host region,
+ * - GCP: `gcloud auth print-access-token`, activating the credentials
+ *   file named by `GOOGLE_APPLICATION_CREDENTIALS` first when set,
+ * - ACR: `az acr login --expose-token` after a service principal login
+ *   from `AZURE_CLIENT_ID`, `AZURE_CLIENT_SECRET` and `AZURE_TENANT_ID`.
+ *
+ * @param cfg Resolved plugin configuration with `ociAuth` set.
+ * @param cwd Repository root, kept mounted at `/apps`.
+ * @returns The token request.
+ * @throws SemanticReleaseError when the ECR region cannot be determined.
+ */
+export function tokenRequest(cfg: HelmConfig, cwd: string): TokenRequest {
+  const auth = cfg.getOciAuth();
+  const type = auth?.type ?? 'ecr';
+  const host = cfg.getOciHost() ?? '';
+  const env = [...PASSTHROUGH_ENV[type]];
+  const mounts = [{ host: cwd, container: '/apps', readonly: false }];
+  let script: string;
+  let args: string[] = [];
+
+  switch (type) {
+    case 'ecr': {
+      const region = auth?.region ?? ecrRegion(host);
+      if (!region) {
+        throw new SemanticReleaseError(
+          'ECR region not found.',
+          'EOCIAUTHCONFIG',
+          `Set ociAuth.region; ${host} is not an ECR registry host.`,
+        );
+      }
+      script = 'aws ecr get-login-password --region "$1"';
+      args = [region];
+      break;
+    }
+    case 'gcp': {
+      script = 'gcloud auth print-access-token';
+      const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+      if (credentials) {
+        mounts.push({
+          host: credentials,
+          container: GCP_CREDENTIALS,
+          readonly: true,
+        });
+        script =
+          `gcloud auth login --quiet --cred-file=${GCP_CREDENTIALS} >/dev/null 2>&1 && ` +
+          script;
+      }
+      break;
+    }
+    default: {
+      script =
+        'az login --service-principal --username "$AZURE_CLIENT_ID" ' +
+        '--password "$AZURE_CLIENT_SECRET" --tenant "$AZURE_TENANT_ID" ' +
+        '--output none && ' +
+        'az acr login --name "$1" --expose-token --output tsv --query accessToken';
+      args = [host.split('.')[0]];
+    }
+  }
+
+  return {
+    type,
+    image: cfg.getOciAuthImage(),
+    script,
+    args,
+    opts: { mounts, env },
+    username: TOKEN_USERNAMES[type],
+  };
+}
+
+/**
+ * Exchange the runner's cloud credentials for registry credentials.
+ *
+ * @param cfg Resolved plugin configuration with `ociAuth` set.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @param helper Token helper, replaceable for tests.
+ * @returns Username and token for the registry.
+ * @throws SemanticReleaseError when the exchange fails or yields no token.
+ */
+export async function cloudCredentials(
+  cfg: HelmConfig,
+  cwd: string,
+  logger: Context['logger'],
+  helper: TokenHelper = clientTokenHelper(clientFor(cfg)),
+): Promise<RegistryCredentials> {
+  const request = tokenRequest(cfg, cwd);
+  let token: string;
+  try {
+    token = (await helper(request, cwd, logger)).trim();
+  } catch (err: unknown) {
+    throw new SemanticReleaseError(
+      'Registry token exchange failed.',
+      'ECLOUDAUTH',
+      `${request.type} token request in ${request.image} failed: ` +
+        (err instanceof Error ? err.message : String(err)),
+    );
+  }
+  if (!token) {
+    throw new SemanticReleaseError(
+      'Registry token exchange failed.',
+      'ECLOUDAUTH',
+      `${request.type} token request in ${request.image} printed no token.`,
+    );
+  }
+  registerSecrets(token);
+  logger.log(`ociAuth: obtained ${request.type} token for ${cfg.getOciHost()}`);
+  return { username: request.username, password: token };
+}
@@ -1,88 +1,333 @@
 // src/command-runner.ts
-import { execSync } from 'node:child_process';
+import { execFileSync, spawn } from 'node:child_process';
 // @ts-expect-error semantic-release types are not bundled
 import { Context } from 'semantic-release';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { RunResult } from './docker/client.js';
+import { redact } from './redact.js';
+
+/**
+ * Time a command gets to exit after SIGTERM, on timeout or
+ * cancellation, before it is killed with SIGKILL.
+ */
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Options of `runCommand`.
+ *
+ * - `env` entries are added to the environment of the command.
+ * - `logger` receives every non-empty line of stdout and stderr as it
+ *   is printed, with registered secrets masked.
+ * - `timeout` is the time in milliseconds the command may run.
+ * - `signal` cancels the command when aborted.
+ * - `reject: false` resolves with the exit code of a failed command
+ *   instead of rejecting.
+ */
+export interface CommandOptions {
+  cwd: string;
+  env?: Record<string, string>;
+  logger?: { log: (m: string) => void };
+  timeout?: number;
+  signal?: AbortSignal;
+  reject?: boolean;
+}
+
+/**
+ * Error of a command that exited with a non-zero code. Like the errors
+ * of `execSync`, it carries the exit `status`, the terminating `signal`
+ * and the captured output.
+ */
+export interface CommandError extends Error {
+  status: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Split a stream into lines and hand each complete line to `onLine`.
+ * The returned function flushes a trailing line without a newline.
+ */
+function lineSplitter(onLine: (line: string) => void): {
+  push: (chunk: string) => void;
+  flush: () => void;
+} {
+  let pending = '';
+  return {
+    push: (chunk) => {
+      const lines = (pending + chunk).split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach((l) => onLine(l.replace(/\r$/, '')));
+    },
+    flush: () => {
+      if (pending.length > 0) onLine(pending);
+      pending = '';
+    },
+  };
+}
+
+/**
+ * Render an argument vector as a command line for logs. Arguments that
+ * a POSIX shell would split or expand are single-quoted, so the line
+ * can be pasted into a shell to reproduce the run.
+ *
+ * @param argv File to execute followed by its arguments.
+ * @returns The command line.
+ */
+export function formatCommand(argv: string[]): string {
+  return argv
+    .map((a) =>
+      /^[\w@%+=:,./-]+$/.test(a) ? a : `'${a.replace(/'/g, `'\\''`)}'`,
+    )
+    .join(' ');
+}
+
+/**
+ * Execute a file with arguments without blocking the event loop. No
+ * shell is involved, so arguments reach the program verbatim, whatever
+ * quotes or `$()` they contain. Output is collected in full and, with
+ * `logger`, streamed line by line while the command runs, so long
+ * pushes and pulls show progress.
+ *
+ * The command stays in the process group of semantic-release, so
+ * SIGINT and SIGTERM sent to the release reach it as well. On timeout
+ * or when `signal` aborts, the command receives SIGTERM and, if still
+ * running after a grace period, SIGKILL.
+ *
+ * @param argv File to execute followed by its arguments.
+ * @param opts Working directory, environment, logging and limits.
+ * @returns Trimmed stdout and the exit code of the command.
+ * @throws CommandError when the command exits with a non-zero code,
+ *         unless `reject` is false.
+ * @throws SemanticReleaseError `ECOMMANDTIMEOUT` when the timeout
+ *         expires and `ECOMMANDABORTED` when `signal` aborts.
+ */
+export function runCommand(
+  argv: string[],
+  opts: CommandOptions,
+): Promise<RunResult> {
+  const [file, ...args] = argv;
+  const cmd = formatCommand(argv);
+  return new Promise((resolve, reject) => {
+    if (opts.signal?.aborted) {
+      reject(aborted(cmd));
+      return;
+    }
+    const child = spawn(file, args, {
+      cwd: opts.cwd,
+      env: opts.env ? { ...process.env, ...opts.env } : process.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const out: string[] = [];
+    const err: string[] = [];
+    const logLine = (line: string) => {
+      if (opts.logger && line.trim().length > 0) opts.logger.log(redact(line));
+    };
+    const outLines = lineSplitter(logLine);
+    const errLines = lineSplitter(logLine);
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      out.push(chunk);
+      outLines.push(chunk);
+    });
+    child.stderr.on('data', (chunk: string) => {
+      err.push(chunk);
+      errLines.push(chunk);
+    });
+
+    let stopped: Error | undefined;
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+    const stop = (reason: Error) => {
+      if (stopped) return;
+      stopped = reason;
+      child.kill('SIGTERM');
+      killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+      killTimer.unref();
+    };
+    const timer =
+      opts.timeout !== undefined
+        ? setTimeout(() => stop(timedOut(cmd, opts.timeout ?? 0)), opts.timeout)
+        : undefined;
+    const onAbort = () => stop(aborted(cmd));
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      if (killTimer) clearTimeout(killTimer);
+      opts.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (e) => {
+      cleanup();
+      reject(e);
+    });
+    child.on('close', (code, signal) => {
+      cleanup();
+      outLines.flush();
+      errLines.flush();
+      const stdout = out.join('');
+      const stderr = err.join('');
+      if (stopped) {
+        reject(stopped);
+        return;
+      }
+      if (code === 0 || opts.reject === false) {
+        resolve({ stdout: stdout.trim(), code: code ?? 1 });
+        return;
+      }
+      const failure = new Error(
+        redact(`Command failed: ${cmd}\n${stderr}`.trim()),
+      ) as CommandError;
+      failure.status = code;
+      failure.signal = signal;
+      failure.stdout = stdout;
+      failure.stderr = stderr;
+      reject(failure);
+    });
+  });
+}
 
 /**
- * Execute a host command and return its trimmed stdout. All interactions are
- * logged to the provided semantic-release logger. If the command produces no
- * stdout, "(no output)" is logged for traceability.
+ * Options of `runCommandSync`: the working directory, the time in
+ * milliseconds the command may run and text passed on its stdin.
+ */
+export type SyncCommandOptions = Pick<CommandOptions, 'cwd' | 'timeout'> & {
+  input?: string;
+};
+
+/**
+ * Execute a file with arguments and wait for it, blocking the event
+ * loop. Only for short probes whose answer is needed synchronously,
+ * such as engine checks and credential helpers; like `runCommand`, the
+ * command is stopped when the timeout expires.
+ *
+ * @param argv File to execute followed by its arguments.
+ * @param opts Working directory, timeout and stdin.
+ * @returns Stdout of the command, untrimmed.
+ * @throws The error of `execFileSync` when the command fails.
+ * @throws SemanticReleaseError `ECOMMANDTIMEOUT` when the timeout
+ *         expires.
+ */
+export function runCommandSync(
+  argv: string[],
+  opts: SyncCommandOptions,
+): string {
+  const [file, ...args] = argv;
+  try {
+    return execFileSync(file, args, {
+      cwd: opts.cwd,
+      input: opts.input,
+      timeout: opts.timeout,
+      stdio: 'pipe',
+      encoding: 'utf8',
+    });
+  } catch (err: unknown) {
+    if ((err as { code?: string }).code === 'ETIMEDOUT') {
+      throw timedOut(formatCommand(argv), opts.timeout ?? 0);
+    }
+    throw err;
+  }
+}
+
+function timedOut(cmd: string, timeout: number): Error {
+  return new SemanticReleaseError(
+    'Command timed out.',
+    'ECOMMANDTIMEOUT',
+    `${redact(cmd)} did not finish within ${timeout} ms and was stopped.`,
+  );
+}
+
+function aborted(cmd: string): Error {
+  return new SemanticReleaseError(
+    'Command cancelled.',
+    'ECOMMANDABORTED',
+    `${redact(cmd)} was cancelled before it finished.`,
+  );
+}
+
+/**
+ * Lines of stderr logged when a command whose output is not streamed
+ * fails.
+ */
+const STDERR_TAIL_LINES = 20;
+
+/**
+ * Options of `runHostCmd`: those of `runCommand`, and `stream: false` to
+ * keep the output of the command out of the log, for commands that read
+ * whole files or long listings.
+ */
+export type HostCommandOptions = Pick<
+  CommandOptions,
+  'env' | 'timeout' | 'signal'
+> & { stream?: boolean };
+
+/**
+ * Execute a host program and return its trimmed stdout. All interactions are
+ * logged to the provided semantic-release logger: the command, then every
+ * line of stdout and stderr as it is printed, unless `stream` is false. If
+ * a streamed command prints nothing, "(no output)" is logged for
+ * traceability.
  *
- * On failure, the function logs the failing command, tries to log captured
- * stdout and stderr from the thrown error object, and rethrows the original
- * error to preserve the exit semantics. The command is executed with stdio
- * "pipe" and UTF-8 decoding so that stdout can be captured and returned to
- * callers. The working directory is set to the repository root.
+ * On failure, the function logs the failing command and its exit code, or
+ * the reason it was stopped, and rethrows the original error to preserve the
+ * exit semantics. Without streaming, the last lines of stderr are logged as
+ * well, so the cause is not lost. Registered secrets are masked in everything
+ * that is logged.
  *
- * @param cmd Shell command to execute.
+ * @param argv File to execute followed by its arguments.
  * @param cwd Working directory for the command.
  * @param logger semantic-release logger used for structured logs.
+ * @param opts Extra environment, timeout, cancellation signal and
+ *        whether to stream the output.
  * @returns Trimmed stdout of the command.
- * @throws Any error thrown by execSync is rethrown after being logged.
+ * @throws Any error of `runCommand` is rethrown after being logged.
  */
-export function runHostCmd(
-  cmd: string,
+export async function runHostCmd(
+  argv: string[],
   cwd: string,
   logger: Context['logger'],
-): string {
-  const stringify = (v: unknown): string => {
-    if (typeof v === 'string') {
-      return v;
-    } else {
-      if (Buffer.isBuffer(v)) {
-        return v.toString('utf8');
-      } else {
-        return '';
-      }
-    }
-  };
+  opts: HostCommandOptions = {},
+): Promise<string> {
+  const { stream = true, ...runOpts } = opts;
+  const cmd = formatCommand(argv);
+  logger.log(`$ ${redact(cmd)}`);
 
-  logger.log(`$ ${cmd}`);
+  let printed = false;
+  const streamed = {
+    log: (line: string) => {
+      printed = true;
+      logger.log(line);
+    },
+  };
 
   try {
-    const out = execSync(cmd, { cwd, stdio: 'pipe', encoding: 'utf8' });
-    const trimmed = out.trim();
-
-    if (trimmed.length > 0) {
-      logger.log(trimmed);
-    } else {
+    const { stdout } = await runCommand(argv, {
+      ...runOpts,
+      cwd,
+      logger: stream ? streamed : undefined,
+    });
+    if (stream && !printed) {
       logger.log('(no output)');
     }
-
-    return trimmed;
+    return stdout;
   } catch (err: unknown) {
-    logger.error(`Command failed: ${cmd}`);
+    logger.error(`Command failed: ${redact(cmd)}`);
 
     if (typeof err === 'object' && err !== null) {
-      const e = err as {
-        stdout?: string | Buffer;
-        stderr?: string | Buffer;
-        message?: string;
-      };
-
-      const out = stringify(e.stdout);
-      const errOut = stringify(e.stderr);
-      const outTrimmed = out.trim();
-      const errTrimmed = errOut.trim();
-
-      if (outTrimmed.length > 0) {
-        logger.error(outTrimmed);
-      } else {
-        if (out.length > 0) {
-          logger.error(out);
+      const e = err as Partial<CommandError> & { details?: string };
+      if (typeof e.status === 'number') {
+        logger.error(`Exit code ${e.status}`);
+        if (!stream && typeof e.stderr === 'string' && e.stderr.trim()) {
+          const tail = e.stderr.trimEnd().split('\n').slice(-STDERR_TAIL_LINES);
+          logger.error(redact(tail.join('\n')));
         }
-      }
-
-      if (errTrimmed.length > 0) {
-        logger.error(errTrimmed);
-      } else {
-        if (errOut.length > 0) {
-          logger.error(errOut);
-        }
-      }
-
-      if (typeof e.message === 'string' && e.message.length > 0) {
-        logger.error(e.message);
+      } else if (typeof e.signal === 'string') {
+        logger.error(`Terminated by ${e.signal}`);
+      } else if (typeof e.message === 'string' && e.message.length > 0) {
+        logger.error(redact(e.details ?? e.message));
       }
     }
 
@@ -91,4 +336,4 @@ export function runHostCmd(
 }
 
 // noinspection JSUnusedGlobalSymbols
-export default { runHostCmd };
+export default { formatCommand, runCommand, runCommandSync, runHostCmd };
@@ -0,0 +1,52 @@
+import type { HelmConfig } from './plugin-config.js';
+import { digestReference, PushedChart } from './helm-push.js';
+import { renderTemplate } from './template.js';
+
+/**
+ * Environment variables handed to the cosign container by name: the
+ * private key and its password. Values stay in the host environment
+ * and never appear in the logged `docker run` command.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @returns Variable names to pass through.
+ */
+export function cosignEnv(cfg: HelmConfig): string[] {
+  return [cfg.getCosignKeyEnv(), 'COSIGN_PASSWORD'];
+}
+
+/**
+ * Build the cosign invocations for a pushed chart: one `sign` and one
+ * `attest` per configured attestation. Every command targets the
+ * digest reference, so signatures are bound to the pushed content and
+ * not to a tag that could later be moved. Registry credentials are not
+ * part of the arguments; see `writeRegistryAuth`.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param chart Name and version of the pushed chart.
+ * @param pushed Reference and digest reported by `helm push`.
+ * @returns Argument vectors for the cosign image, in execution order.
+ */
+export function cosignCommands(
+  cfg: HelmConfig,
+  chart: { name: string; version: string },
+  pushed: PushedChart,
+): string[][] {
+  const common = [`--key=env://${cfg.getCosignKeyEnv()}`, '--yes'];
+  if (cfg.getOciInsecure()) {
+    common.push('--allow-insecure-registry', '--allow-http-registry');
+  }
+
+  const ref = digestReference(pushed);
+  return [
+    ['sign', ...common, ref],
+    ...cfg
+      .getCosignAttestations()
+      .map((a) => [
+        'attest',
+        ...common,
+        `--type=${a.type}`,
+        `--predicate=${renderTemplate(a.predicate, chart)}`,
+        ref,
+      ]),
+  ];
+}
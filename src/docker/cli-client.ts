@@ -1,30 +1,69 @@
-import { execSync } from 'node:child_process';
 // @ts-expect-error semantic-release types are not bundled
 import SemanticReleaseError from '@semantic-release/error';
-import type { DockerClient, RunResult } from './client.js';
+import type {
+  ContainerEngine,
+  DockerClient,
+  EngineInfo,
+  RunResult,
+} from './client.js';
+import { redact, registerSecrets } from '../redact.js';
+import {
+  formatCommand,
+  runCommand,
+  runCommandSync,
+} from '../command-runner.js';
 
 /**
- * Quote a shell argument for POSIX sh using single quotes. Embedded
- * single quotes are escaped by closing, inserting an escaped quote,
- * and reopening. The function performs no environment expansion.
+ * Build the pull command for a given image as an argument vector. The
+ * command is deterministic and suitable for logging and testing.
  */
-export function shQuote(input: string): string {
-  return `'${input.replace(/'/g, `'\\''`)}'`;
+export function buildDockerPull(
+  image: string,
+  engine: ContainerEngine = 'docker',
+): string[] {
+  return [engine, 'pull', image];
 }
 
 /**
- * Build a docker pull command string for a given image. The command
- * is deterministic and suitable for logging and testing.
+ * Environment for containers running as the host user, who has no
+ * writable home in the image: `HOME` and the Helm directories point to
+ * `/tmp`, so caches, registry logins and tool configs can be written.
+ */
+export const HOST_USER_ENV = [
+  'HOME=/tmp',
+  'HELM_CACHE_HOME=/tmp/.cache/helm',
+  'HELM_CONFIG_HOME=/tmp/.config/helm',
+  'HELM_DATA_HOME=/tmp/.local/share/helm',
+];
+
+/**
+ * The `uid:gid` of this process, for running containers as the host
+ * user.
+ *
+ * @returns The user, or `null` where the platform has no numeric ids.
  */
-export function buildDockerPull(image: string): string {
-  return `docker pull ${image}`;
+export function hostUser(): string | null {
+  if (typeof process.getuid !== 'function') return null;
+  if (typeof process.getgid !== 'function') return null;
+  return `${process.getuid()}:${process.getgid()}`;
 }
 
 /**
- * Build a docker run command string. The command includes --rm, any
- * provided add-host entries, volume mounts, an optional entrypoint,
- * a working directory, the image, and argv. Non-option argv tokens
- * are single-quoted via shQuote to preserve spaces reliably.
+ * Build the run command for the engine (default `docker`) as an
+ * argument vector. The command includes --rm, any provided add-host
+ * entries, volume mounts, environment entries, an optional entrypoint,
+ * a working directory, the image, and argv. Arguments are passed to
+ * the engine verbatim, without a shell. An environment entry without
+ * `=` passes the host variable through by name, so its value never
+ * appears in the command.
+ *
+ * With `user`, the container runs as that `uid:gid` instead of the
+ * image's user, so files written to mounts are not owned by root.
+ *
+ * Podman resolves `host.docker.internal` by itself and older releases
+ * reject `host-gateway`, so such entries are left out for it. Rootless
+ * Podman runs with `--userns=keep-id`, so files written to mounts keep
+ * the host user's ownership.
  */
 export function buildDockerRun(
   image: string,
@@ -33,63 +72,188 @@ export function buildDockerRun(
     workdir: string;
     mounts: Array<{ host: string; container: string; readonly?: boolean }>;
     addHosts: string[];
+    env?: string[];
     entrypoint?: string;
+    engine?: EngineInfo;
+    user?: string;
   },
-): string {
-  const parts: string[] = ['docker run', '--rm'];
-  for (const h of opts.addHosts) parts.push(`--add-host=${h}`);
+): string[] {
+  const engine = opts.engine ?? { name: 'docker' };
+  const podman = engine.name === 'podman';
+  const parts: string[] = [engine.name, 'run', '--rm'];
+  if (opts.user) parts.push(`--user=${opts.user}`);
+  if (podman && engine.rootless) parts.push('--userns=keep-id');
+  for (const h of opts.addHosts) {
+    if (podman && h.endsWith(':host-gateway')) continue;
+    parts.push(`--add-host=${h}`);
+  }
   for (const m of opts.mounts) {
     const ro = m.readonly ? ':ro' : '';
     parts.push(`--volume=${m.host}:${m.container}${ro}`);
   }
+  for (const e of opts.env ?? []) parts.push(`--env=${e}`);
   parts.push(`--workdir=${opts.workdir}`);
   if (opts.entrypoint) parts.push(`--entrypoint=${opts.entrypoint}`);
-  parts.push(image);
-  const quoted = args.map((a) => (a.startsWith('-') ? a : shQuote(a)));
-  return `${parts.join(' ')} ${quoted.join(' ')}`.trim();
+  parts.push(image, ...args);
+  return parts;
+}
+
+/**
+ * Per-call options of a runner: a logger receiving each output line as
+ * it is printed, a timeout in milliseconds and a cancellation signal.
+ */
+export interface RunnerOptions {
+  logger?: { log: (m: string) => void };
+  timeout?: number;
+  signal?: AbortSignal;
 }
 
 /**
- * A synchronous runner function that executes a shell command with a
- * specific working directory and returns trimmed UTF-8 standard out.
+ * A runner function that executes a file with arguments, given as
+ * `argv`, in a specific working directory and returns trimmed UTF-8
+ * standard out, with the exit code when known. Entries of `env` are added to the environment
+ * of the command. Runners may answer synchronously, which keeps test
+ * doubles short, and need not stream to `opts.logger`.
  */
 export interface Runner {
-  (cmd: string, cwd: string): { stdout: string };
+  (
+    argv: string[],
+    cwd: string,
+    env?: Record<string, string>,
+    opts?: RunnerOptions,
+  ):
+    | { stdout: string; code?: number }
+    | Promise<{ stdout: string; code?: number }>;
+}
+
+/**
+ * Default runner that spawns commands via `runCommand`, streaming
+ * their output and honoring timeouts and cancellation.
+ */
+export const defaultRunner: Runner = (argv, cwd, env, opts = {}) =>
+  runCommand(argv, { cwd, env, ...opts });
+
+/**
+ * A synchronous runner for short probes, such as version checks, whose
+ * answer is needed before any asynchronous step can start.
+ */
+export interface ProbeRunner {
+  (argv: string[], cwd: string, timeout?: number): { stdout: string };
 }
 
 /**
- * Default runner that executes commands via execSync with UTF-8 text
- * decoding and returns the trimmed stdout for logging and callers.
+ * Probe runner that executes commands via `runCommandSync` and returns
+ * the trimmed stdout.
  */
-export const defaultRunner: Runner = (cmd, cwd) => {
-  const out = execSync(cmd, { cwd, stdio: 'pipe', encoding: 'utf8' }).trim();
-  return { stdout: out };
-};
+export const probeRunner: ProbeRunner = (argv, cwd, timeout) => ({
+  stdout: runCommandSync(argv, { cwd, timeout }).trim(),
+});
 
 /**
- * A Docker client backed by the local Docker CLI. The implementation
- * composes deterministic command strings and delegates execution to a
- * configurable runner. The default runner uses execSync.
+ * Run a command through a runner with the logging shared by the
+ * clients: output lines are streamed to `logger` as they are printed;
+ * output of runners that do not stream is logged when they finish, and
+ * "(no output)" when there is none. Runs with `secretOutput` register
+ * their whole output as a secret before logging it, so they are never
+ * streamed. Failure messages are masked and logged before the error is
+ * rethrown.
+ *
+ * @param runFn Runner to execute the command with.
+ * @param argv File and arguments; secrets in them are masked in the
+ *             logs.
+ * @param cwd Working directory for the command.
+ * @param env Extra environment of the command.
+ * @param opts Logger, secret output flag and run limits.
+ * @returns Trimmed stdout and the exit code.
+ */
+export async function runAndLog(
+  runFn: Runner,
+  argv: string[],
+  cwd: string,
+  env: Record<string, string> | undefined,
+  opts: {
+    secretOutput?: boolean;
+    timeout?: number;
+    signal?: AbortSignal;
+    logger: { log: (m: string) => void; error: (m: string) => void };
+  },
+): Promise<RunResult> {
+  opts.logger.log(`$ ${redact(formatCommand(argv))}`);
+  let printed = false;
+  const stream = opts.secretOutput
+    ? undefined
+    : {
+        log: (line: string) => {
+          printed = true;
+          opts.logger.log(line);
+        },
+      };
+  try {
+    const { stdout, code = 0 } = await runFn(argv, cwd, env, {
+      logger: stream,
+      timeout: opts.timeout,
+      signal: opts.signal,
+    });
+    if (opts.secretOutput) registerSecrets(stdout);
+    if (!printed) {
+      opts.logger.log(stdout.length ? redact(stdout) : '(no output)');
+    }
+    return { stdout, code };
+  } catch (e) {
+    if (typeof e === 'object' && e !== null) {
+      const err = e as { message?: string };
+      if (err.message) {
+        err.message = redact(err.message);
+        opts.logger.error(err.message);
+      }
+    }
+    throw e;
+  }
+}
+
+/**
+ * A Docker client backed by the local Docker CLI, or the compatible
+ * Podman or nerdctl CLI given as `engine`. The implementation composes
+ * deterministic command strings and delegates execution to a
+ * configurable runner. The default runner spawns the command and
+ * streams its output.
+ *
+ * Containers run as `user`, the host user by default, with
+ * `HOST_USER_ENV`, so release artifacts are owned by the host user;
+ * `null` keeps the image's user.
+ *
+ * Secret environment entries are set on the `docker` process and
+ * forwarded into the container by name, so their values never appear
+ * in the command line. They are also registered for redaction, and
+ * every logged command, output and error is masked. Runs that print a
+ * secret, such as a registry token, register their whole output.
  */
 export class DockerCliClient implements DockerClient {
   private readonly runFn: Runner;
+  private readonly engine: EngineInfo;
+  private readonly user: string | null;
 
-  constructor(runFn: Runner = defaultRunner) {
+  constructor(
+    runFn: Runner = defaultRunner,
+    engine: EngineInfo = { name: 'docker' },
+    user: string | null = hostUser(),
+  ) {
     this.runFn = runFn;
+    this.engine = engine;
+    this.user = user;
   }
 
   async pull(
     image: string,
     logger: { log: (m: string) => void; error: (m: string) => void },
   ): Promise<void> {
-    const cmd = buildDockerPull(image);
-    logger.log(`$ ${cmd}`);
+    const argv = buildDockerPull(image, this.engine.name);
     try {
-      const { stdout } = this.runFn(cmd, process.cwd());
-      logger.log(stdout.length ? stdout : '(no output)');
+      await runAndLog(this.runFn, argv, process.cwd(), undefined, { logger });
     } catch (e) {
-      const msg =
-        e instanceof Error ? e.message : 'Unknown error while pulling image';
+      const msg = redact(
+        e instanceof Error ? e.message : 'Unknown error while pulling image',
+      );
       throw new SemanticReleaseError(
         `Failed to pull Docker image: ${image}`,
         'EIMAGEPULLFAILED',
@@ -110,7 +274,12 @@ export class DockerCliClient implements DockerClient {
         readonly?: boolean;
       }>;
       addHosts?: string[];
+      env?: string[];
+      secretEnv?: Record<string, string>;
+      secretOutput?: boolean;
       entrypoint?: string;
+      timeout?: number;
+      signal?: AbortSignal;
       logger: { log: (m: string) => void; error: (m: string) => void };
     },
   ): Promise<RunResult> {
@@ -119,23 +288,21 @@ export class DockerCliClient implements DockerClient {
       { host: opts.cwd, container: '/apps', readonly: false },
     ];
     const addHosts = opts.addHosts ?? ['host.docker.internal:host-gateway'];
-    const cmd = buildDockerRun(image, args, {
+    const secretEnv = opts.secretEnv ?? {};
+    registerSecrets(...Object.values(secretEnv));
+    const argv = buildDockerRun(image, args, {
       workdir,
       mounts,
       addHosts,
+      env: [
+        ...(this.user ? HOST_USER_ENV : []),
+        ...(opts.env ?? []),
+        ...Object.keys(secretEnv),
+      ],
       entrypoint: opts.entrypoint,
+      engine: this.engine,
+      user: this.user ?? undefined,
     });
-    opts.logger.log(`$ ${cmd}`);
-    try {
-      const { stdout } = this.runFn(cmd, opts.cwd);
-      opts.logger.log(stdout.length ? stdout : '(no output)');
-      return { stdout, code: 0 };
-    } catch (e) {
-      if (typeof e === 'object' && e !== null) {
-        const msg = (e as { message?: string }).message;
-        if (msg) opts.logger.error(msg);
-      }
-      throw e;
-    }
+    return runAndLog(this.runFn, argv, opts.cwd, opts.secretEnv, opts);
   }
 }
@@ -1,7 +1,22 @@
+/**
+ * Container engines with a Docker-compatible CLI.
+ */
+export type ContainerEngine = 'docker' | 'podman' | 'nerdctl';
+
+/**
+ * The engine to run containers with. `rootless` is set for rootless
+ * Podman, which needs its user namespace mapped to the host user.
+ */
+export interface EngineInfo {
+  name: ContainerEngine;
+  rootless?: boolean;
+}
+
 /**
  * A result object representing a completed container run. The object
- * contains the trimmed standard output and an exit code. The exit
- * code is always zero for successful synchronous runs in this layer.
+ * contains the trimmed standard output and the exit code of the
+ * process. Clients reject runs that fail, so their results carry zero;
+ * `runCommand` with `reject: false` reports failing codes as well.
  */
 export interface RunResult {
   stdout: string;
@@ -31,7 +46,12 @@ export interface DockerClient {
         readonly?: boolean;
       }>;
       addHosts?: string[];
+      env?: string[];
+      secretEnv?: Record<string, string>;
+      secretOutput?: boolean;
       entrypoint?: string;
+      timeout?: number;
+      signal?: AbortSignal;
       logger: { log: (m: string) => void; error: (m: string) => void };
     },
   ): Promise<RunResult>;
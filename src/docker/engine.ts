@@ -0,0 +1,50 @@
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { ContainerEngine, EngineInfo } from './client.js';
+import { ProbeRunner, probeRunner } from './cli-client.js';
+
+/**
+ * Engines probed when none is configured, in order of preference.
+ */
+export const ENGINES: ContainerEngine[] = ['docker', 'podman', 'nerdctl'];
+
+/**
+ * Find the first engine whose CLI answers `version`. For Podman, also
+ * ask whether it runs rootless. An engine whose CLI is missing or fails
+ * is skipped; one that hangs past the timeout stops the detection.
+ *
+ * @param candidates Engines to try, in order.
+ * @param timeout Time in milliseconds each probe may run.
+ * @param runFn Command runner, replaceable for tests.
+ * @returns The engine, or `undefined` when none answers.
+ * @throws SemanticReleaseError `ECOMMANDTIMEOUT` when a probe times out.
+ */
+export function detectEngine(
+  candidates: ContainerEngine[] = ENGINES,
+  timeout?: number,
+  runFn: ProbeRunner = probeRunner,
+): EngineInfo | undefined {
+  for (const name of candidates) {
+    try {
+      runFn([name, 'version'], process.cwd(), timeout);
+    } catch (err: unknown) {
+      if (err instanceof SemanticReleaseError) throw err;
+      continue;
+    }
+    if (name !== 'podman') {
+      return { name };
+    }
+    try {
+      const { stdout } = runFn(
+        ['podman', 'info', '--format', '{{.Host.Security.Rootless}}'],
+        process.cwd(),
+        timeout,
+      );
+      return { name, rootless: stdout.trim() === 'true' };
+    } catch (err: unknown) {
+      if (err instanceof SemanticReleaseError) throw err;
+      return { name, rootless: false };
+    }
+  }
+  return undefined;
+}
@@ -1,4 +1,4 @@
-import type { DockerClient } from './client.js';
+import type { DockerClient, RunResult } from './client.js';
 import { DockerCliClient } from './cli-client.js';
 
 /**
@@ -13,6 +13,11 @@ export interface DockerImageOptions {
     readonly?: boolean;
   }>;
   addHosts?: string[];
+  env?: string[];
+  secretEnv?: Record<string, string>;
+  secretOutput?: boolean;
+  timeout?: number;
+  signal?: AbortSignal;
 }
 
 /**
@@ -58,14 +63,19 @@ export class DockerImage {
    * default host mapping, mount, and working directory policies to
    * match current plugin behavior with a single call.
    */
-  async run(args: string[]): Promise<void> {
-    await this.client.run(this.image, args, {
+  async run(args: string[]): Promise<RunResult> {
+    return this.client.run(this.image, args, {
       cwd: this.cwd,
       workdir: this.opts.workdir ?? '/apps',
       mounts: this.opts.mounts ?? [
         { host: this.cwd, container: '/apps', readonly: false },
       ],
       addHosts: this.opts.addHosts ?? ['host.docker.internal:host-gateway'],
+      env: this.opts.env,
+      secretEnv: this.opts.secretEnv,
+      secretOutput: this.opts.secretOutput,
+      timeout: this.opts.timeout,
+      signal: this.opts.signal,
       logger: this.logger,
     });
   }
@@ -73,17 +83,25 @@ export class DockerImage {
   /**
    * Run a POSIX shell script inside the container. The method sets
    * the entrypoint to /bin/sh and executes the script with -lc so
-   * a new shell interprets the script in one argument.
+   * a new shell interprets the script in one argument. `args` become
+   * the positional parameters of the script, so values reach it as
+   * `"$@"` without being parsed by the shell.
    */
-  async shell(script: string): Promise<void> {
-    await this.client.run(this.image, ['-lc', script], {
+  async shell(script: string, args: string[] = []): Promise<RunResult> {
+    const positional = args.length > 0 ? ['sh', ...args] : [];
+    return this.client.run(this.image, ['-lc', script, ...positional], {
       cwd: this.cwd,
       workdir: this.opts.workdir ?? '/apps',
       mounts: this.opts.mounts ?? [
         { host: this.cwd, container: '/apps', readonly: false },
       ],
       addHosts: this.opts.addHosts ?? ['host.docker.internal:host-gateway'],
+      env: this.opts.env,
+      secretEnv: this.opts.secretEnv,
+      secretOutput: this.opts.secretOutput,
       entrypoint: '/bin/sh',
+      timeout: this.opts.timeout,
+      signal: this.opts.signal,
       logger: this.logger,
     });
   }
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { DockerClient, RunResult } from './client.js';
+import { defaultRunner, runAndLog, Runner } from './cli-client.js';
+import { redact, registerSecrets } from '../redact.js';
+
+/**
+ * Arguments that print the version of each known host binary. They are
+ * used instead of an image pull to check that a tool is installed.
+ */
+const VERSION_ARGS: Record<string, string[]> = {
+  helm: ['version', '--short'],
+  'helm-docs': ['--version'],
+  oras: ['version'],
+  cosign: ['version'],
+};
+
+/**
+ * Rewrite container paths in a command argument, script or environment
+ * value to the host paths they are mounted from. A path is rewritten
+ * when it starts at the beginning of the text or after whitespace, `=`
+ * or a quote. A file mounted under its own name also maps its
+ * directory, so `DOCKER_CONFIG` pointing at the directory of a mounted
+ * `config.json` still resolves.
+ *
+ * @param text Text that may contain container paths.
+ * @param mounts Mounts of the run.
+ * @returns The text with host paths.
+ */
+export function toHostPaths(
+  text: string,
+  mounts: Array<{ host: string; container: string }>,
+): string {
+  const paths = new Map<string, string>();
+  for (const m of mounts) {
+    paths.set(m.container, m.host);
+    const dir = path.posix.dirname(m.container);
+    if (
+      dir !== '/' &&
+      path.posix.basename(m.container) === path.basename(m.host) &&
+      !paths.has(dir)
+    ) {
+      paths.set(dir, path.dirname(m.host));
+    }
+  }
+  if (paths.size === 0) {
+    return text;
+  }
+  const alternatives = [...paths.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const re = new RegExp(
+    `(^|[\\s='"])(${alternatives.join('|')})(?=$|[\\s/'"])`,
+    'g',
+  );
+  return text.replace(re, (_m, lead: string, p: string) => {
+    return `${lead}${paths.get(p) ?? p}`;
+  });
+}
+
+/**
+ * A client that runs the tools of each image as binaries installed on
+ * the host, for runners without a container engine. Images map to
+ * binaries through `tools`; shell runs execute their entrypoint on the
+ * host, without a login shell, so the `PATH` of the runner applies.
+ * Mount targets are rewritten to their host paths, so callers keep
+ * composing container paths.
+ *
+ * Runs that log in to a registry, recognizable by their secret
+ * variables, get a throwaway `HELM_REGISTRY_CONFIG` and `DOCKER_CONFIG`
+ * unless they set their own, so credentials never persist on the
+ * runner. Logging and redaction match `DockerCliClient`.
+ */
+export class NativeClient implements DockerClient {
+  private readonly tools: Record<string, string>;
+  private readonly runFn: Runner;
+
+  constructor(tools: Record<string, string>, runFn: Runner = defaultRunner) {
+    this.tools = tools;
+    this.runFn = runFn;
+  }
+
+  /**
+   * Check that the binary for an image is installed by printing its
+   * version.
+   *
+   * @throws SemanticReleaseError `ENATIVETOOL` when the binary is
+   *         unknown or does not run.
+   */
+  async pull(
+    image: string,
+    logger: { log: (m: string) => void; error: (m: string) => void },
+  ): Promise<void> {
+    const binary = this.binaryFor(image);
+    const argv = [binary, ...(VERSION_ARGS[binary] ?? ['--version'])];
+    try {
+      await runAndLog(this.runFn, argv, process.cwd(), undefined, { logger });
+    } catch (e) {
+      throw new SemanticReleaseError(
+        `Host binary not available: ${binary}`,
+        'ENATIVETOOL',
+        `runtime "native" runs ${binary} from PATH instead of ${image}: ` +
+          redact(e instanceof Error ? e.message : String(e)),
+      );
+    }
+  }
+
+  async run(
+    image: string,
+    args: string[],
+    opts: {
+      cwd: string;
+      workdir?: string;
+      mounts?: Array<{
+        host: string;
+        container: string;
+        readonly?: boolean;
+      }>;
+      addHosts?: string[];
+      env?: string[];
+      secretEnv?: Record<string, string>;
+      secretOutput?: boolean;
+      entrypoint?: string;
+      timeout?: number;
+      signal?: AbortSignal;
+      logger: { log: (m: string) => void; error: (m: string) => void };
+    },
+  ): Promise<RunResult> {
+    const mounts = opts.mounts ?? [{ host: opts.cwd, container: '/apps' }];
+    const host = (text: string) => toHostPaths(text, mounts);
+    const secretEnv = opts.secretEnv ?? {};
+    registerSecrets(...Object.values(secretEnv));
+
+    const env: Record<string, string> = {};
+    for (const entry of opts.env ?? []) {
+      const eq = entry.indexOf('=');
+      if (eq > 0) env[entry.slice(0, eq)] = host(entry.slice(eq + 1));
+    }
+    let scratch: string | undefined;
+    if (Object.keys(secretEnv).length > 0) {
+      scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'helm-native-'));
+      env.HELM_REGISTRY_CONFIG ??= path.join(scratch, 'registry.json');
+      env.DOCKER_CONFIG ??= scratch;
+    }
+
+    const command = opts.entrypoint ?? this.binaryFor(image);
+    // a login shell would reset PATH from the runner's profile
+    const shellArgs =
+      opts.entrypoint === '/bin/sh' && args[0] === '-lc'
+        ? ['-c', ...args.slice(1)]
+        : args;
+    const argv = [command, ...shellArgs.map(host)];
+    const workdir = host(opts.workdir ?? '/apps');
+    try {
+      return await runAndLog(
+        this.runFn,
+        argv,
+        workdir,
+        { ...env, ...secretEnv },
+        opts,
+      );
+    } finally {
+      if (scratch) fs.rmSync(scratch, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Binary that stands in for an image.
+   *
+   * @throws SemanticReleaseError `ENATIVETOOL` for unknown images.
+   */
+  private binaryFor(image: string): string {
+    const binary = this.tools[image];
+    if (!binary) {
+      throw new SemanticReleaseError(
+        `No host binary for image: ${image}`,
+        'ENATIVETOOL',
+        'runtime "native" only runs the Helm, helm-docs, oras and cosign ' +
+          'images configured for the plugin.',
+      );
+    }
+    return binary;
+  }
+}
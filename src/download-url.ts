@@ -0,0 +1,40 @@
+import { renderTemplate } from './template.js';
+
+/**
+ * Variables available to custom download URL templates.
+ */
+export interface DownloadUrlVars {
+  name: string;
+  version: string;
+  tag: string;
+  filename: string;
+}
+
+/**
+ * Download URL of a packaged chart under a gh-pages URL strategy.
+ * `pages` yields `undefined` so the index writer derives the URL from
+ * `ghPages.url` and the archive copied next to the index;
+ * `github-release` links the asset of the release tagged `tag`;
+ * anything else is rendered as a URL template.
+ *
+ * @param strategy `"pages"`, `"github-release"` or a URL template.
+ * @param vars Template variables for the archive.
+ * @param githubRepo Resolves `owner/repo`, only called for releases.
+ * @returns The download URL, or `undefined` for `pages`.
+ */
+export function packageDownloadUrl(
+  strategy: string,
+  vars: DownloadUrlVars,
+  githubRepo: () => string,
+): string | undefined {
+  if (strategy === 'pages') {
+    return undefined;
+  }
+  if (strategy === 'github-release') {
+    return (
+      `https://github.com/${githubRepo()}/releases/download/` +
+      `${vars.tag}/${vars.filename}`
+    );
+  }
+  return renderTemplate(strategy, { ...vars });
+}
@@ -1,6 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
+import { isDeepStrictEqual } from 'util';
+import { diffValues, parseValues, ValuesChange } from './helm-values.js';
+import { readPackagedChartYaml } from './helm-package.js';
+import { setYamlValue } from './yaml-edit.js';
 
 /**
  * Schema for Chart.yaml used by tests and serialization. Additional
@@ -14,6 +18,37 @@ export interface ChartYaml {
   [key: string]: unknown;
 }
 
+/**
+ * Chart.yaml text as loaded from disk, together with the normalized
+ * data it produced. Serialization diffs against this baseline so only
+ * changed fields are rewritten.
+ */
+interface ChartSource {
+  text: string;
+  data: ChartYaml;
+}
+
+/**
+ * Parse Chart.yaml text and coerce well-known fields to strings, so a
+ * version written as `1.0` is not read back as a number. Unknown keys
+ * are preserved verbatim.
+ */
+function normalizeChartYaml(rawText: string): ChartYaml {
+  const parsed = (yaml.parse(rawText) ?? {}) as ChartYaml;
+
+  const normalized: ChartYaml = { ...parsed };
+  if (typeof normalized.name !== 'string') {
+    normalized.name = String(normalized.name ?? '');
+  }
+  if (normalized.version !== undefined) {
+    normalized.version = String(normalized.version);
+  }
+  if (normalized.apiVersion !== undefined) {
+    normalized.apiVersion = String(normalized.apiVersion);
+  }
+  return normalized;
+}
+
 /**
  * Minimal chart metadata required by the plugin and tests. The full
  * parsed Chart.yaml is retained as a raw map for round-tripping and
@@ -21,30 +56,47 @@ export interface ChartYaml {
  */
 export class HelmChart {
   private readonly data: ChartYaml;
+  private readonly valuesData: Record<string, unknown>;
+  private readonly source?: ChartSource;
 
   /**
    * Load Chart.yaml from a chart directory and normalize well-known
-   * fields. Unknown keys are preserved verbatim for later writes.
+   * fields. Unknown keys are preserved verbatim for later writes. The
+   * chart's default values.yaml is loaded alongside when present.
    *
    * @param chartDir Path to the directory that contains Chart.yaml.
    */
   static from(chartDir: string): HelmChart {
     const chartYamlPath = path.join(chartDir, 'Chart.yaml');
     const rawText = fs.readFileSync(chartYamlPath, 'utf8');
-    const parsed = (yaml.parse(rawText) ?? {}) as ChartYaml;
+    const normalized = normalizeChartYaml(rawText);
 
-    const normalized: ChartYaml = { ...parsed };
-    if (typeof normalized.name !== 'string') {
-      normalized.name = String(normalized.name ?? '');
-    }
-    if (normalized.version !== undefined) {
-      normalized.version = String(normalized.version);
-    }
-    if (normalized.apiVersion !== undefined) {
-      normalized.apiVersion = String(normalized.apiVersion);
-    }
+    const valuesPath = path.join(chartDir, 'values.yaml');
+    const values = fs.existsSync(valuesPath)
+      ? parseValues(fs.readFileSync(valuesPath, 'utf8'))
+      : {};
 
-    return new HelmChart(normalized);
+    return new HelmChart(normalized, values, {
+      text: rawText,
+      data: normalized,
+    });
+  }
+
+  /**
+   * Load the metadata of a packaged chart from the Chart.yaml inside
+   * the archive. Unlike the archive file name, this reports the exact
+   * name and version `helm package` saw, including prerelease and
+   * build metadata.
+   *
+   * @param tgzPath Path to a `.tgz` produced by `helm package`.
+   * @throws Error when the archive holds no top-level Chart.yaml.
+   */
+  static fromPackage(tgzPath: string): HelmChart {
+    const rawText = readPackagedChartYaml(tgzPath);
+    if (rawText === undefined) {
+      throw new Error(`No Chart.yaml found in ${tgzPath}`);
+    }
+    return new HelmChart(normalizeChartYaml(rawText));
   }
 
   /**
@@ -52,9 +104,18 @@ export class HelmChart {
    * prefer the factory unless constructing for tests.
    *
    * @param data Parsed Chart.yaml as a mutable object.
+   * @param values Parsed default values; empty when omitted.
+   * @param source Original Chart.yaml text and its parsed data, kept
+   *               so that writes touch only the fields that changed.
    */
-  constructor(data: ChartYaml) {
+  constructor(
+    data: ChartYaml,
+    values: Record<string, unknown> = {},
+    source?: ChartSource,
+  ) {
     this.data = { ...data };
+    this.valuesData = values;
+    this.source = source;
   }
 
   /**
@@ -94,17 +155,59 @@ export class HelmChart {
    */
   withVersion(version: string): HelmChart {
     const next: ChartYaml = { ...this.data, version };
-    return new HelmChart(next);
+    return new HelmChart(next, this.valuesData, this.source);
+  }
+
+  /**
+   * Return the chart app version as a string, or undefined when the
+   * field is not present.
+   */
+  appVersion(): string | undefined {
+    return this.data.appVersion === undefined
+      ? undefined
+      : String(this.data.appVersion);
+  }
+
+  /**
+   * Produce a new HelmChart with the appVersion field replaced by the
+   * provided value. Like `withVersion`, the original instance remains
+   * unchanged.
+   *
+   * @param appVersion Application version to set on the chart.
+   */
+  withAppVersion(appVersion: string): HelmChart {
+    const next: ChartYaml = { ...this.data, appVersion };
+    return new HelmChart(next, this.valuesData, this.source);
+  }
+
+  /**
+   * Return the chart's default values as parsed from values.yaml, or
+   * an empty map when the chart ships without one.
+   */
+  values(): Record<string, unknown> {
+    return this.valuesData;
+  }
+
+  /**
+   * Compare these default values with the values of an earlier release
+   * and report changes that break user overrides.
+   *
+   * @param previous Values of the earlier release.
+   * @returns Incompatible changes, empty when compatible.
+   */
+  valuesChangesSince(previous: Record<string, unknown>): ValuesChange[] {
+    return diffValues(previous, this.valuesData);
   }
 
   /**
    * Serialize the current chart to YAML and write the result to the
-   * given file path. All unknown fields are preserved verbatim.
+   * given file path. All unknown fields are preserved verbatim, and a
+   * chart loaded from disk keeps its comments, key order and quoting.
    *
    * @param filePath Destination path for the Chart.yaml file.
    */
   saveTo(filePath: string): void {
-    const text = yaml.stringify(this.data);
+    const text = this.toYAML();
     fs.mkdirSync(path.dirname(filePath), { recursive: true });
     fs.writeFileSync(filePath, text, 'utf8');
   }
@@ -119,9 +222,21 @@ export class HelmChart {
 
   /**
    * Serialize the chart to a YAML string suitable for inspection or
-   * custom persistence in tests and utilities.
+   * custom persistence in tests and utilities. Charts loaded from disk
+   * are serialized as edits to the original text: only fields that
+   * differ from what was loaded are rewritten, so a version bump
+   * changes exactly one scalar.
    */
   toYAML(): string {
-    return yaml.stringify(this.data);
+    if (!this.source) {
+      return yaml.stringify(this.data);
+    }
+    let text = this.source.text;
+    for (const [key, value] of Object.entries(this.data)) {
+      if (!isDeepStrictEqual(this.source.data[key], value)) {
+        text = setYamlValue(text, [key], value);
+      }
+    }
+    return text;
   }
 }
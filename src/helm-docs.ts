@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { DockerCliClient } from './docker/cli-client.js';
 import { DockerImage } from './docker/image.js';
+import { NativeClient } from './docker/native-client.js';
 import type { DockerClient } from './docker/client.js';
 
 export interface Logger {
@@ -80,6 +81,24 @@ export function normalizeReadmeValuesTableFile(absPath: string): {
   return { changed };
 }
 
+/**
+ * Normalize the chart README before helm-docs runs, logging whether
+ * anything changed.
+ */
+function prepareReadme(cwd: string, chartPath: string, logger: Logger): void {
+  const readmePath = path.join(cwd, chartPath, 'README.md');
+  if (fs.existsSync(readmePath)) {
+    const { changed } = normalizeReadmeValuesTableFile(readmePath);
+    logger.log(
+      changed
+        ? 'helm-docs: normalized README valuesTable block(s)'
+        : 'helm-docs: README normalization not needed (no markers found)',
+    );
+  } else {
+    logger.log('helm-docs: README.md not found; skipping normalization');
+  }
+}
+
 export interface DockerHelmDocsOptions {
   image?: string;
   client?: DockerClient;
@@ -103,19 +122,52 @@ export class DockerHelmDocs implements HelmDocs {
     args: string[],
     logger: Logger,
   ): Promise<void> {
-    const readmePath = path.join(cwd, chartPath, 'README.md');
-    if (fs.existsSync(readmePath)) {
-      const { changed } = normalizeReadmeValuesTableFile(readmePath);
-      logger.log(
-        changed
-          ? 'helm-docs: normalized README valuesTable block(s)'
-          : 'helm-docs: README normalization not needed (no markers found)',
-      );
-    } else {
-      logger.log('helm-docs: README.md not found; skipping normalization');
-    }
+    prepareReadme(cwd, chartPath, logger);
 
     const img = new DockerImage(this.image, cwd, logger, this.client);
     await img.run(['helm-docs', `--chart-search-root=${chartPath}`, ...args]);
   }
 }
+
+export interface NativeHelmDocsOptions {
+  binary?: string;
+  client?: DockerClient;
+  timeout?: number;
+}
+
+/**
+ * helm-docs implementation running the `helm-docs` binary installed on
+ * the host, stopped after `timeout` milliseconds when one is set.
+ */
+export class NativeHelmDocs implements HelmDocs {
+  private readonly binary: string;
+  private readonly client: DockerClient;
+  private readonly timeout?: number;
+
+  constructor(opts: NativeHelmDocsOptions = {}) {
+    this.binary = opts.binary ?? 'helm-docs';
+    this.timeout = opts.timeout;
+    this.client =
+      opts.client ?? new NativeClient({ [this.binary]: this.binary });
+  }
+
+  async generate(
+    cwd: string,
+    chartPath: string,
+    args: string[],
+    logger: Logger,
+  ): Promise<void> {
+    prepareReadme(cwd, chartPath, logger);
+
+    await this.client.run(
+      this.binary,
+      [`--chart-search-root=${chartPath}`, ...args],
+      {
+        cwd,
+        mounts: [{ host: cwd, container: '/apps' }],
+        timeout: this.timeout,
+        logger,
+      },
+    );
+  }
+}
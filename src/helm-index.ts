@@ -24,6 +24,12 @@ export interface HelmIndexDoc {
   generated?: string;
 }
 
+/**
+ * Entry annotation naming the semantic-release channel a version was
+ * released on. Versions on the default channel carry no annotation.
+ */
+export const CHANNEL_ANNOTATION = 'semantic-release/channel';
+
 /**
  * Copy all non-reserved Chart.yaml keys into the target entry map.
  * A small denylist prevents overwriting fields computed by the
@@ -84,20 +90,28 @@ export class HelmIndex {
    */
   static fromFile(indexPath: string): HelmIndex {
     if (fs.existsSync(indexPath)) {
-      const parsed = yaml.parse(fs.readFileSync(indexPath, 'utf8')) as
-        | HelmIndexDoc
-        | undefined;
-
-      const idx = new HelmIndex();
-      idx.doc = parsed ?? { apiVersion: 'v1', entries: {} };
-      if (!idx.doc.entries) idx.doc.entries = {};
-      idx.doc.apiVersion = 'v1';
-      return idx;
+      return HelmIndex.parse(fs.readFileSync(indexPath, 'utf8'));
     }
 
     return HelmIndex.empty();
   }
 
+  /**
+   * Parse index.yaml content. Missing sections are normalized as in
+   * `fromFile`.
+   *
+   * @param text index.yaml content.
+   */
+  static parse(text: string): HelmIndex {
+    const parsed = yaml.parse(text) as HelmIndexDoc | undefined;
+
+    const idx = new HelmIndex();
+    idx.doc = parsed ?? { apiVersion: 'v1', entries: {} };
+    if (!idx.doc.entries) idx.doc.entries = {};
+    idx.doc.apiVersion = 'v1';
+    return idx;
+  }
+
   /**
    * Append a packaged chart to the index. The entry includes fields
    * computed by this writer and all non-reserved Chart.yaml fields.
@@ -163,6 +177,69 @@ export class HelmIndex {
     return next;
   }
 
+  /**
+   * Whether the index holds an entry for a chart version.
+   *
+   * @param name Chart name.
+   * @param version Chart version.
+   */
+  has(name: string, version: string): boolean {
+    return (this.doc.entries[name] ?? []).some(
+      (e) => String(e.version) === version,
+    );
+  }
+
+  /**
+   * Digest recorded for a chart version, as a hex SHA-256 of the
+   * archive.
+   *
+   * @param name Chart name.
+   * @param version Chart version.
+   * @returns The digest, or `undefined` for unknown versions.
+   */
+  digestOf(name: string, version: string): string | undefined {
+    const entry = (this.doc.entries[name] ?? []).find(
+      (e) => String(e.version) === version,
+    );
+    return typeof entry?.digest === 'string' ? entry.digest : undefined;
+  }
+
+  /**
+   * Record the release channel of an existing entry in its
+   * annotations. Passing no channel marks the version as released on
+   * the default channel by removing the annotation. Unknown versions
+   * leave the index unchanged.
+   *
+   * @param name Chart name.
+   * @param version Chart version.
+   * @param channel Channel name, or `undefined` for the default one.
+   */
+  withChannel(name: string, version: string, channel?: string): HelmIndex {
+    const next = HelmIndex.empty();
+    next.doc = { ...this.doc, entries: { ...this.doc.entries } };
+    if (!this.has(name, version)) {
+      return next;
+    }
+
+    next.doc.entries[name] = this.doc.entries[name].map((e) => {
+      if (String(e.version) !== version) return e;
+      const annotations = {
+        ...((e.annotations as Record<string, string> | undefined) ?? {}),
+      };
+      if (channel) {
+        annotations[CHANNEL_ANNOTATION] = channel;
+      } else {
+        delete annotations[CHANNEL_ANNOTATION];
+      }
+      const updated: ChartEntry = { ...e, annotations };
+      if (Object.keys(annotations).length === 0) {
+        delete updated.annotations;
+      }
+      return updated;
+    });
+    return next;
+  }
+
   /**
    * Serialize the index to YAML at the given path. Parent folders
    * are created when missing.
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+/**
+ * Size of a tar header and of the blocks file contents are padded to.
+ */
+const BLOCK = 512;
+
+/**
+ * Read a NUL-terminated string field from a tar header.
+ */
+function field(header: Buffer, offset: number, length: number): string {
+  const raw = header.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8');
+}
+
+/**
+ * Extract the `path` record from a pax extended header body. Records
+ * have the form `<length> <key>=<value>\n`.
+ */
+function paxPath(body: Buffer): string | undefined {
+  for (const record of body.toString('utf8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * List the regular files of a gzip-compressed tar archive with their
+ * contents. Only the subset of the format written by `helm package`
+ * is handled: ustar headers, GNU long names and pax `path` records.
+ *
+ * @param tgzPath Path to a `.tgz` archive.
+ * @returns Map of archive paths to file contents.
+ * @throws Error when the archive is not valid gzip.
+ */
+export function readTgzFiles(tgzPath: string): Map<string, Buffer> {
+  const tar = zlib.gunzipSync(fs.readFileSync(tgzPath));
+  const files = new Map<string, Buffer>();
+  let longName: string | undefined;
+
+  for (let offset = 0; offset + BLOCK <= tar.length; ) {
+    const header = tar.subarray(offset, offset + BLOCK);
+    if (header.every((b) => b === 0)) break;
+
+    const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = field(header, 345, 155);
+    const name = prefix
+      ? `${prefix}/${field(header, 0, 100)}`
+      : field(header, 0, 100);
+    const body = tar.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === 'L') {
+      longName = field(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      longName = paxPath(body) ?? longName;
+      continue;
+    }
+    if (type === '0' || type === '\0') {
+      files.set(longName ?? name, Buffer.from(body));
+    }
+    longName = undefined;
+  }
+  return files;
+}
+
+/**
+ * Read the top-level `Chart.yaml` of a packaged chart. `helm package`
+ * stores the chart under a directory named after it, so the file sits
+ * at `<name>/Chart.yaml`; vendored subcharts further down are ignored.
+ *
+ * @param tgzPath Path to a packaged chart archive.
+ * @returns The Chart.yaml text, or `undefined` when the archive has none.
+ */
+export function readPackagedChartYaml(tgzPath: string): string | undefined {
+  for (const [name, content] of readTgzFiles(tgzPath)) {
+    if (/^[^/]+\/Chart\.yaml$/.test(name.replace(/^\.\//, ''))) {
+      return content.toString('utf8');
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,86 @@
+/**
+ * A chart pushed by `helm push`: the tagged reference it reported and
+ * the sha256 digest of the pushed manifest.
+ */
+export interface PushedChart {
+  ref: string;
+  digest: string;
+}
+
+/**
+ * Parse the output of one or more `helm push` runs. Each push prints a
+ * `Pushed: <ref>` line followed by `Digest: sha256:<hex>`; pairs are
+ * collected in order and incomplete pairs are dropped.
+ *
+ * @param output Combined stdout and stderr of the pushes.
+ * @returns Pushed references with their digests.
+ */
+export function parseHelmPushOutput(output: string): PushedChart[] {
+  const pushed: PushedChart[] = [];
+  let ref: string | undefined;
+  for (const line of output.split('\n')) {
+    const pushedMatch = line.match(/^\s*Pushed:\s*(\S+)/);
+    if (pushedMatch) {
+      ref = pushedMatch[1];
+      continue;
+    }
+    const digestMatch = line.match(/^\s*Digest:\s*(sha256:[0-9a-f]{64})/);
+    if (digestMatch && ref) {
+      pushed.push({ ref, digest: digestMatch[1] });
+      ref = undefined;
+    }
+  }
+  return pushed;
+}
+
+/**
+ * Turn a pushed chart into a digest reference such as
+ * `ghcr.io/org/charts/app@sha256:...`, which names immutable content
+ * rather than a movable tag.
+ *
+ * @param chart Chart reported by `helm push`.
+ * @returns The repository reference pinned to the digest.
+ */
+export function digestReference(chart: PushedChart): string {
+  const repository = chart.ref.replace(/:[^:/]+$/, '');
+  return `${repository}@${chart.digest}`;
+}
+
+/**
+ * OCI tag Helm uses for a chart version. Tags cannot hold `+`, so
+ * Helm stores build metadata with `_` instead.
+ *
+ * @param version Chart version.
+ * @returns The tag name.
+ */
+export function ociTag(version: string): string {
+  return version.replace(/\+/g, '_');
+}
+
+/**
+ * Reference of a chart version in an OCI repository, as `helm push`
+ * tags it.
+ *
+ * @param repo Repository without the `oci://` scheme.
+ * @param name Chart name.
+ * @param version Chart version.
+ * @returns The reference, e.g. `ghcr.io/org/charts/app:1.0.0_build.1`.
+ */
+export function chartReference(
+  repo: string,
+  name: string,
+  version: string,
+): string {
+  return `${repo}/${name}:${ociTag(version)}`;
+}
+
+/**
+ * OCI tag that follows a release channel. The default channel is
+ * tagged `latest`, both when publishing and when promoting to it.
+ *
+ * @param channel Release channel, or `undefined` for the default.
+ * @returns The tag name.
+ */
+export function channelTag(channel: string | undefined): string {
+  return channel ?? 'latest';
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { HelmConfig } from './plugin-config.js';
+import type { DockerImageOptions } from './docker/image.js';
+
+/**
+ * Container directory where the staged signing material is mounted
+ * read-only for the Helm container.
+ */
+const SIGNING_MOUNT_DIR = '/run/helm-signing';
+
+/**
+ * Signing material staged for `helm package --sign`: the temporary
+ * host directory holding it, the `helm package` flags and the container
+ * options mounting it.
+ */
+export interface SigningFiles {
+  dir: string;
+  args: string[];
+  options: DockerImageOptions;
+}
+
+/**
+ * Stage the secret keyring and passphrase for `helm package --sign` and
+ * return the matching flags. Both files are written with owner-only
+ * permissions to a fresh directory below the system temp directory,
+ * outside the repository, and mounted into the Helm container. The
+ * passphrase is passed as a file so it never appears in the process
+ * list or the logs.
+ *
+ * @param cfg Resolved plugin configuration with signing enabled.
+ * @param cwd Repository root, mounted into the Helm container.
+ * @returns The staged files; pass `dir` to `removeSigningFiles`.
+ */
+export function writeSigningFiles(cfg: HelmConfig, cwd: string): SigningFiles {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'helm-signing-'));
+
+  const keyring = cfg.getSignKeyring();
+  const bytes = keyring
+    ? fs.readFileSync(path.resolve(cwd, keyring))
+    : Buffer.from(cfg.getSignKeyringBase64() ?? '', 'base64');
+  fs.writeFileSync(path.join(dir, 'secring.gpg'), bytes, { mode: 0o600 });
+
+  const args = [
+    '--sign',
+    `--key=${cfg.getSignKey() ?? ''}`,
+    `--keyring=${SIGNING_MOUNT_DIR}/secring.gpg`,
+  ];
+
+  const passphrase = cfg.getSignPassphrase();
+  if (passphrase !== undefined) {
+    fs.writeFileSync(path.join(dir, 'passphrase'), passphrase, {
+      mode: 0o600,
+    });
+    args.push(`--passphrase-file=${SIGNING_MOUNT_DIR}/passphrase`);
+  }
+  return {
+    dir,
+    args,
+    options: {
+      mounts: [
+        { host: cwd, container: '/apps', readonly: false },
+        { host: dir, container: SIGNING_MOUNT_DIR, readonly: true },
+      ],
+    },
+  };
+}
+
+/**
+ * Remove staged signing material.
+ *
+ * @param dir Directory returned by `writeSigningFiles`.
+ */
+export function removeSigningFiles(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
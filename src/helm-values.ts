@@ -0,0 +1,294 @@
+import * as yaml from 'yaml';
+
+/**
+ * Loose JSON schema node as found in a chart's `values.schema.json`.
+ * Only the keywords inspected for tightening are typed explicitly.
+ */
+export interface SchemaNode {
+  type?: string | string[];
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  [key: string]: unknown;
+}
+
+/**
+ * Numeric keywords where a larger value is stricter.
+ */
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems'];
+
+/**
+ * Numeric keywords where a smaller value is stricter.
+ */
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems'];
+
+/**
+ * Return true for plain mappings, excluding arrays and null.
+ */
+function isMap(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Parse a values.yaml document into a mapping. Empty or non-mapping
+ * documents yield an empty map so callers can diff unconditionally.
+ *
+ * @param text Raw values.yaml content, or `undefined` when absent.
+ * @returns Parsed values map.
+ */
+export function parseValues(text: string | undefined): Record<string, unknown> {
+  if (!text) return {};
+  const parsed: unknown = yaml.parse(text);
+  return isMap(parsed) ? parsed : {};
+}
+
+/**
+ * Flatten a values map into dotted leaf paths. Arrays and scalars are
+ * leaves; nested mappings are descended into. Empty mappings are kept
+ * as leaves so that removing `podAnnotations: {}` is still detected.
+ *
+ * @param values Parsed values map.
+ * @param prefix Dotted key prefix used during recursion.
+ * @returns Map of dotted paths to leaf values.
+ */
+export function valueLeaves(
+  values: Record<string, unknown>,
+  prefix = '',
+): Map<string, unknown> {
+  const leaves = new Map<string, unknown>();
+  for (const [k, v] of Object.entries(values)) {
+    const key = prefix.length ? `${prefix}.${k}` : k;
+    if (isMap(v) && Object.keys(v).length > 0) {
+      for (const [child, leaf] of valueLeaves(v, key)) {
+        leaves.set(child, leaf);
+      }
+    } else {
+      leaves.set(key, v);
+    }
+  }
+  return leaves;
+}
+
+/**
+ * A single incompatible change between two revisions of values.yaml.
+ * `removed` keys are gone, `type-changed` keys hold a different kind
+ * of value, and `renamed` keys moved their default to a new key.
+ */
+export interface ValuesChange {
+  kind: 'removed' | 'type-changed' | 'renamed';
+  key: string;
+  detail: string;
+}
+
+/**
+ * Classify a YAML value for type comparisons. Arrays, maps and null are
+ * distinguished from scalars since overrides of each behave differently.
+ */
+function kindOf(v: unknown): string {
+  if (v === null || v === undefined) return 'null';
+  if (Array.isArray(v)) return 'array';
+  return typeof v;
+}
+
+/**
+ * Whether a default is distinctive enough to recognize after a rename.
+ * Booleans, empty strings and empty collections occur everywhere and
+ * would pair unrelated keys.
+ */
+function isDistinctive(v: unknown): boolean {
+  if (typeof v === 'string') return v.length > 0;
+  if (typeof v === 'number') return true;
+  return Array.isArray(v) && v.length > 0;
+}
+
+/**
+ * Collect removed and type-changed keys by walking both trees together.
+ * Removed subtrees are reported leaf by leaf.
+ */
+function walkValues(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix: string,
+  removed: Map<string, unknown>,
+  changes: ValuesChange[],
+): void {
+  for (const [k, prev] of Object.entries(before)) {
+    const key = prefix.length ? `${prefix}.${k}` : k;
+    if (!(k in after)) {
+      const gone = isMap(prev)
+        ? valueLeaves(prev, key)
+        : new Map([[key, prev]]);
+      for (const [leaf, v] of gone) removed.set(leaf, v);
+      continue;
+    }
+    const next = after[k];
+    if (kindOf(prev) !== kindOf(next) && kindOf(prev) !== 'null') {
+      changes.push({
+        kind: 'type-changed',
+        key,
+        detail: `${kindOf(prev)} -> ${kindOf(next)}`,
+      });
+    } else if (isMap(prev) && isMap(next)) {
+      walkValues(prev, next, key, removed, changes);
+    }
+  }
+}
+
+/**
+ * Compare two revisions of a chart's values and report every change
+ * that can break user overrides: removed keys, keys whose value type
+ * changed, and removed keys whose distinctive default reappears under
+ * a newly added key (a rename). Keys whose previous value was null
+ * may take any type, since null is the usual "unset" placeholder.
+ *
+ * @param before Values of the previous release.
+ * @param after Values of the working tree.
+ * @returns Incompatible changes sorted by key.
+ */
+export function diffValues(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): ValuesChange[] {
+  const removed = new Map<string, unknown>();
+  const changes: ValuesChange[] = [];
+  walkValues(before, after, '', removed, changes);
+
+  const previous = valueLeaves(before);
+  const added = [...valueLeaves(after)].filter(([k]) => !previous.has(k));
+  for (const [key, value] of removed) {
+    const match = isDistinctive(value)
+      ? added.findIndex(([, v]) => JSON.stringify(v) === JSON.stringify(value))
+      : -1;
+    if (match >= 0) {
+      const [target] = added.splice(match, 1)[0];
+      changes.push({ kind: 'renamed', key, detail: `moved to ${target}` });
+    } else {
+      changes.push({ kind: 'removed', key, detail: 'key no longer exists' });
+    }
+  }
+
+  return changes.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Normalize the JSON schema `type` keyword to a set of type names.
+ */
+function typeSet(node: SchemaNode): Set<string> | undefined {
+  if (node.type === undefined) return undefined;
+  return new Set(Array.isArray(node.type) ? node.type : [node.type]);
+}
+
+/**
+ * Describe every way `after` accepts fewer documents than `before`.
+ * The walk follows `properties`, `items` and schema-valued
+ * `additionalProperties` and reports new required keys, closed
+ * objects, removed properties of closed objects, narrowed types and
+ * enums, and stricter numeric bounds or new patterns.
+ *
+ * @param before Schema of the previous revision.
+ * @param after Schema of the new revision.
+ * @param at JSON-pointer-like location used in descriptions.
+ * @returns Human-readable descriptions of each tightening.
+ */
+export function schemaTightenings(
+  before: SchemaNode,
+  after: SchemaNode,
+  at = '#',
+): string[] {
+  const found: string[] = [];
+
+  const wasRequired = new Set(before.required ?? []);
+  for (const key of after.required ?? []) {
+    if (!wasRequired.has(key)) found.push(`${at}: "${key}" became required`);
+  }
+
+  if (
+    after.additionalProperties === false &&
+    before.additionalProperties !== false
+  ) {
+    found.push(`${at}: additional properties are no longer allowed`);
+  }
+
+  if (after.additionalProperties === false) {
+    for (const key of Object.keys(before.properties ?? {})) {
+      if (!(key in (after.properties ?? {}))) {
+        found.push(`${at}: property "${key}" was removed`);
+      }
+    }
+  }
+
+  const beforeTypes = typeSet(before);
+  const afterTypes = typeSet(after);
+  if (
+    afterTypes &&
+    (!beforeTypes || [...beforeTypes].some((t) => !afterTypes.has(t)))
+  ) {
+    found.push(`${at}: type narrowed to ${[...afterTypes].join('|')}`);
+  }
+
+  if (Array.isArray(after.enum)) {
+    const allowed = new Set(after.enum.map((v) => JSON.stringify(v)));
+    const lost = Array.isArray(before.enum)
+      ? before.enum.some((v) => !allowed.has(JSON.stringify(v)))
+      : true;
+    if (lost) found.push(`${at}: allowed values narrowed`);
+  }
+
+  for (const kw of LOWER_BOUNDS) {
+    const a = after[kw];
+    const b = before[kw];
+    if (typeof a === 'number' && (typeof b !== 'number' || a > b)) {
+      found.push(`${at}: ${kw} raised to ${a}`);
+    }
+  }
+  for (const kw of UPPER_BOUNDS) {
+    const a = after[kw];
+    const b = before[kw];
+    if (typeof a === 'number' && (typeof b !== 'number' || a < b)) {
+      found.push(`${at}: ${kw} lowered to ${a}`);
+    }
+  }
+  if (typeof after.pattern === 'string' && after.pattern !== before.pattern) {
+    found.push(`${at}: pattern changed to ${after.pattern}`);
+  }
+
+  for (const [key, child] of Object.entries(after.properties ?? {})) {
+    const prev = before.properties?.[key];
+    if (isMap(prev) && isMap(child)) {
+      found.push(...schemaTightenings(prev, child, `${at}/properties/${key}`));
+    }
+  }
+  if (isMap(before.items) && isMap(after.items)) {
+    found.push(...schemaTightenings(before.items, after.items, `${at}/items`));
+  }
+  if (isMap(before.additionalProperties) && isMap(after.additionalProperties)) {
+    found.push(
+      ...schemaTightenings(
+        before.additionalProperties,
+        after.additionalProperties,
+        `${at}/additionalProperties`,
+      ),
+    );
+  }
+
+  return found;
+}
+
+/**
+ * Parse a values.schema.json document, tolerating absence and invalid
+ * JSON by returning an empty (accept-all) schema.
+ *
+ * @param text Raw schema content, or `undefined` when absent.
+ * @returns Parsed schema root.
+ */
+export function parseSchema(text: string | undefined): SchemaNode {
+  if (!text) return {};
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isMap(parsed) ? (parsed as SchemaNode) : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import { redact } from './redact.js';
+
+/**
+ * Media type of the chart archive layer in a Helm OCI manifest.
+ */
+const HELM_CHART_LAYER = 'application/vnd.cncf.helm.chart.content.v1.tar+gzip';
+
+/**
+ * A chart version found in an OCI repository: the manifest digest and
+ * the digest of its chart archive layer, which equals the digest of
+ * the packaged `.tgz`.
+ */
+export interface PublishedManifest {
+  digest: string;
+  layerDigest?: string;
+}
+
+/**
+ * SHA-256 digest of a file in OCI notation (`sha256:<hex>`).
+ *
+ * @param file Path of the file.
+ * @returns The digest.
+ */
+export function fileDigest(file: string): string {
+  const hex = crypto
+    .createHash('sha256')
+    .update(fs.readFileSync(file))
+    .digest('hex');
+  return `sha256:${hex}`;
+}
+
+/**
+ * Decide whether a chart version may be published to a target. A
+ * version that is not published yet may be; one published with the
+ * same digest is skipped; one published with another digest is a
+ * conflict, since publishing would overwrite released content.
+ *
+ * @param target Human-readable target, e.g. `oci://ghcr.io/org/charts`.
+ * @param chart Name and version of the packaged chart.
+ * @param published Digest of the published version, or `undefined`.
+ * @param local Digest of the packaged chart.
+ * @returns True when the identical version is already published.
+ * @throws SemanticReleaseError `EVERSIONEXISTS` when the digests differ.
+ */
+export function isAlreadyPublished(
+  target: string,
+  chart: { name: string; version: string },
+  published: string | undefined,
+  local: string,
+): boolean {
+  if (published === undefined) {
+    return false;
+  }
+  const normalize = (d: string) => (d.includes(':') ? d : `sha256:${d}`);
+  if (normalize(published) === normalize(local)) {
+    return true;
+  }
+  throw new SemanticReleaseError(
+    'Chart version already published.',
+    'EVERSIONEXISTS',
+    `${chart.name} ${chart.version} already exists in ${target} with ` +
+      `digest ${normalize(published)}, but the packaged chart has digest ` +
+      `${normalize(local)}. Release a new version, or set immutable: false ` +
+      'to overwrite it.',
+  );
+}
+
+/**
+ * Shell step printing the manifest of the reference passed as
+ * positional parameter as base64. The manifest is written to a file
+ * first, so a failing `oras` fails the step instead of printing
+ * nothing. The encoding keeps the exact manifest bytes, so the
+ * manifest digest can be computed locally.
+ */
+export const MANIFEST_FETCH_SCRIPT =
+  'f=$(mktemp) && oras manifest fetch --output "$f" "$@" && ' +
+  'base64 < "$f" | tr -d \'\\n\'; s=$?; rm -f "$f"; exit $s';
+
+/**
+ * Registry answers meaning that a reference does not exist, as
+ * opposed to refused credentials or an unavailable registry.
+ */
+const MANIFEST_NOT_FOUND =
+  /: not found\b|\bMANIFEST_UNKNOWN\b|\bNAME_UNKNOWN\b|\b404\b/i;
+
+/**
+ * Exit code of a shell whose command was not found.
+ */
+const COMMAND_NOT_FOUND = 127;
+
+/**
+ * Look up a chart version in an OCI repository. Only an answer that
+ * the reference does not exist counts as not published; any other
+ * failure fails the release, since pushing without knowing could
+ * overwrite released content.
+ *
+ * @param ref Full reference such as `ghcr.io/org/charts/app:1.0.0`.
+ * @param fetch Runs `MANIFEST_FETCH_SCRIPT` for `ref` and returns its
+ *        output; rejections carry the exit `status` and `stderr`.
+ * @returns The published manifest, or `undefined` when the reference
+ *          does not exist.
+ * @throws SemanticReleaseError `EOCILOOKUP` when the lookup fails for
+ *         another reason.
+ */
+export async function fetchPublishedManifest(
+  ref: string,
+  fetch: () => Promise<string>,
+): Promise<PublishedManifest | undefined> {
+  try {
+    return decodePublishedManifest(await fetch());
+  } catch (err: unknown) {
+    if (err instanceof SemanticReleaseError) {
+      throw err;
+    }
+    const e = (err ?? {}) as {
+      status?: number;
+      stderr?: string;
+      message?: string;
+    };
+    const output = `${e.stderr ?? ''}\n${e.message ?? ''}`.trim();
+    if (e.status !== COMMAND_NOT_FOUND && MANIFEST_NOT_FOUND.test(output)) {
+      return undefined;
+    }
+    throw new SemanticReleaseError(
+      'Cannot check whether the chart version is published.',
+      'EOCILOOKUP',
+      `Looking up ${ref} failed, so the push was refused rather than ` +
+        `risk overwriting a released version: ${redact(output)}`,
+    );
+  }
+}
+
+/**
+ * Decode the output of `MANIFEST_FETCH_SCRIPT`.
+ *
+ * @param output Script output.
+ * @returns The published manifest, or `undefined` when the reference
+ *          does not exist.
+ */
+export function decodePublishedManifest(
+  output: string,
+): PublishedManifest | undefined {
+  const encoded = output.trim();
+  if (!encoded) {
+    return undefined;
+  }
+  const bytes = Buffer.from(encoded, 'base64');
+  const digest = `sha256:${crypto.createHash('sha256').update(bytes).digest('hex')}`;
+  let layerDigest: string | undefined;
+  try {
+    const manifest = JSON.parse(bytes.toString('utf8')) as {
+      layers?: Array<{ mediaType?: string; digest?: string }>;
+    };
+    layerDigest = manifest.layers?.find(
+      (l) => l.mediaType === HELM_CHART_LAYER,
+    )?.digest;
+  } catch {
+    layerDigest = undefined;
+  }
+  return { digest, layerDigest };
+}
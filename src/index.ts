@@ -1,18 +1,88 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
 // @ts-expect-error semantic-release types are not bundled
 import { Context } from 'semantic-release';
 // @ts-expect-error semantic-release types are not bundled
 import SemanticReleaseError from '@semantic-release/error';
-import * as yaml from 'yaml';
 import { HelmIndex } from './helm-index.js';
 import { HelmChart } from './helm-chart.js';
-import { DockerCliClient } from './docker/cli-client.js';
-import { DockerImage } from './docker/image.js';
-import { runHostCmd } from './command-runner.js';
+import { DockerImage, DockerImageOptions } from './docker/image.js';
+import { runCommand, runHostCmd } from './command-runner.js';
+import { registerSecrets } from './redact.js';
+import { cloudCredentials, tokenRequest } from './cloud-auth.js';
+import { verifyRegistry } from './registry-check.js';
+import {
+  forEachOciTarget,
+  OciTargetResult,
+  throwTargetFailures,
+} from './oci-targets.js';
+import {
+  fetchPublishedManifest,
+  fileDigest,
+  isAlreadyPublished,
+  MANIFEST_FETCH_SCRIPT,
+} from './immutable.js';
+import {
+  OciAuth,
+  registryConfigEntry,
+  registryConfigOptions,
+  registryLoginOptions,
+  registryLoginScript,
+  removeRegistryAuth,
+  resolveOciAuth,
+  writeRegistryAuth,
+} from './registry-auth.js';
 import { HelmConfig, HelmPluginConfig } from './plugin-config.js';
-import { DockerHelmDocs } from './helm-docs.js';
+import {
+  clientFor,
+  helmDocsFor,
+  resolveEngine,
+  resolveRuntime,
+} from './runtime.js';
+import { resolveAppVersion } from './app-version.js';
+import { applyValuesUpdates } from './values-updates.js';
+import {
+  removeSigningFiles,
+  SigningFiles,
+  writeSigningFiles,
+} from './helm-signing.js';
+import { renderTemplate } from './template.js';
+import { packageDownloadUrl } from './download-url.js';
+import {
+  digestReference,
+  parseHelmPushOutput,
+  PushedChart,
+  channelTag,
+  chartReference,
+  ociTag,
+} from './helm-push.js';
+import { cosignCommands, cosignEnv } from './cosign.js';
+import {
+  buildRelease,
+  HelmRelease,
+  HelmReleaseArtifact,
+} from './release-info.js';
+import {
+  changedFiles,
+  changedFilesWithStatus,
+  commitMatchesChart,
+  commitReleaseType,
+  chartDir,
+  fileAtRevision,
+  isInChartDir,
+  FileChange,
+  incrementVersion,
+  isPrereleaseVersion,
+  maxReleaseType,
+  ReleaseCommit,
+  ReleaseType,
+} from './chart-commits.js';
+import {
+  diffValues,
+  parseSchema,
+  parseValues,
+  schemaTightenings,
+} from './helm-values.js';
 
 export interface ChartYaml {
   name: string;
@@ -30,60 +100,102 @@ const COMMIT_EMAIL = 'semantic-release-bot@martynus.net';
  *
  * The container runs to completion and is automatically removed (`--rm`). The
  * function's purpose is to provide a small, audited surface for running Helm
- * and related tooling in a clean environment.
+ * and related tooling in a clean environment. With the `native` runtime the
+ * matching host binary runs instead, with `/apps` mapped to `cwd`.
  *
+ * @param cfg Resolved plugin configuration, selecting the runtime.
  * @param image Docker image name, including tag.
  * @param args Arguments appended after the image in `docker run`.
  * @param cwd Host working directory, mounted to `/apps` in the container.
  * @param logger semantic-release logger used for structured logs.
+ * @param opts Container options such as environment entries, secret
+ *             variables kept off the command line, or extra mounts.
+ * @returns Trimmed stdout of the container.
  */
 async function runDockerCmd(
+  cfg: HelmConfig,
   image: string,
   args: string[],
   cwd: string,
   logger: Context['logger'],
-): Promise<void> {
-  const img = new DockerImage(image, cwd, logger, new DockerCliClient());
-  await img.run(args);
+  opts: DockerImageOptions = {},
+): Promise<string> {
+  const img = new DockerImage(image, cwd, logger, clientFor(cfg), opts);
+  return (await img.run(args)).stdout;
 }
 
 /**
- * Run a shell script inside a Docker container. This composes a `docker run`
- * command that sets `/bin/sh -lc <script>` as entrypoint, uses `/apps` as the
- * working directory, and mounts the repo as in `runDockerCmd`.
- *
- * The script is JSON-encoded to avoid quoting pitfalls on the host shell. The
- * function returns only after the container exits.
+ * Shell step marking the registry in `OCI_REGISTRY` as insecure in the
+ * Helm registry config of the container.
+ */
+const HELM_INSECURE_REGISTRY_SCRIPT =
+  'dir="${HELM_CONFIG_HOME:-$HOME/.config/helm}/registry" && ' +
+  'mkdir --parents "$dir" && ' +
+  'printf \'{"auths":{"%s":{"insecure":true}}}\' "$OCI_REGISTRY" ' +
+  '> "$dir/config.json"';
+
+/**
+ * Run a Helm or oras command against the OCI registry in one container,
+ * logging in first when `auth` carries credentials. Scripts are fixed
+ * strings: the registry and credentials are read from the environment
+ * set by `registryLoginOptions`, and `args` are passed as positional
+ * parameters, so configured values reach the tool verbatim.
  *
+ * @param cfg Resolved plugin configuration, selecting the runtime.
  * @param image Docker image name, including tag.
- * @param script A POSIX shell one-liner to execute via `/bin/sh -lc`.
+ * @param tool Tool the image logs in with.
+ * @param auth Registry authentication from `resolveOciAuth`.
+ * @param script Shell step running the command with `"$@"`.
+ * @param args Positional parameters of `script`.
  * @param cwd Host working directory, mounted to `/apps` in the container.
  * @param logger semantic-release logger used for structured logs.
+ * @param setup Fixed shell steps to run before the login.
+ * @returns Trimmed stdout of the script.
  */
-async function runDockerShell(
+async function runOciScript(
+  cfg: HelmConfig,
   image: string,
+  tool: 'helm' | 'oras',
+  auth: OciAuth,
   script: string,
+  args: string[],
   cwd: string,
   logger: Context['logger'],
-): Promise<void> {
-  const img = new DockerImage(image, cwd, logger, new DockerCliClient());
-  await img.shell(script);
+  setup: string[] = [],
+): Promise<string> {
+  const steps = [...setup];
+  if (auth.kind === 'login') {
+    steps.push(`${registryLoginScript(tool)} >&2`);
+  }
+  steps.push(script);
+  const img = new DockerImage(
+    image,
+    cwd,
+    logger,
+    clientFor(cfg),
+    registryLoginOptions(cfg, auth, cwd),
+  );
+  return (await img.shell(steps.join(' && '), args)).stdout;
 }
 
 /**
- * Pull a Docker image to ensure availability at runtime. On failure, this
- * converts the underlying error into a `SemanticReleaseError` so the failure
- * is reported with a stable code (`EIMAGEPULLFAILED`).
+ * Pull a Docker image to ensure availability at runtime, or check the
+ * version of the host binary standing in for it with the `native`
+ * runtime. On failure, this converts the underlying error into a
+ * `SemanticReleaseError` so the failure is reported with a stable code
+ * (`EIMAGEPULLFAILED`, or `ENATIVETOOL` for host binaries).
  *
+ * @param cfg Resolved plugin configuration.
  * @param image Docker image to pull.
  * @param logger semantic-release logger used for structured logs.
  * @throws SemanticReleaseError if the image cannot be pulled.
  */
 async function verifyDockerImage(
+  cfg: HelmConfig,
   image: string,
   logger: Context['logger'],
 ): Promise<void> {
-  const client = new DockerCliClient();
+  const client = clientFor(cfg);
   try {
     await client.pull(image, logger);
   } catch (err: unknown) {
@@ -99,27 +211,89 @@ async function verifyDockerImage(
 }
 
 /**
- * Return a new Chart.yaml string with only the `version` field updated. The
- * function parses the input YAML, shallow-copies the object to avoid losing
- * unknown fields, overrides `version`, and stringifies the result.
+ * Check one OCI target: complete credentials, a usable `ociAuth` or
+ * registry config, and a registry that is reachable with them.
  *
- * @param rawYaml Raw Chart.yaml content.
- * @param version Version string to set.
- * @returns Updated YAML string.
+ * @param target Target configuration from `getOciTargets`.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @throws SemanticReleaseError when the target is misconfigured or its
+ *         registry cannot be used.
  */
-function setChartVersion(rawYaml: string, version: string): string {
-  const parsed: ChartYaml = yaml.parse(rawYaml) as ChartYaml;
-  const updated: ChartYaml = { ...parsed, version };
-  return yaml.stringify(updated);
+async function verifyOciTarget(
+  target: HelmConfig,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<void> {
+  const haveUser = target.hasOciUser();
+  const havePass = target.hasOciPass();
+  logger.log(
+    `verifyConditions: OCI target -> repo="${target.getOciRepo()}", ` +
+      `insecure=${target.getOciInsecure()}, ` +
+      `usernamePresent=${haveUser}, passwordPresent=${havePass}`,
+  );
+  if ((haveUser && !havePass) || (!haveUser && havePass)) {
+    throw new SemanticReleaseError(
+      'Incomplete OCI credentials.',
+      'EOCICREDSINCOMPLETE',
+      'Provide both username and password, or neither.',
+    );
+  }
+  const ociAuth = target.getOciAuth();
+  if (ociAuth) {
+    if (!['ecr', 'gcp', 'acr'].includes(ociAuth.type)) {
+      throw new SemanticReleaseError(
+        'Invalid ociAuth type.',
+        'EOCIAUTHCONFIG',
+        `ociAuth.type must be ecr, gcp or acr; got "${ociAuth.type}".`,
+      );
+    }
+    if (target.getOciRegistryConfig(cwd) || haveUser) {
+      throw new SemanticReleaseError(
+        'Conflicting OCI credentials.',
+        'EOCIAUTHCONFIG',
+        'Use ociAuth, ociRegistryConfig or ociUsername/ociPassword, ' +
+          'not several of them.',
+      );
+    }
+    const request = tokenRequest(target, cwd);
+    logger.log(
+      `verifyConditions: ociAuth ${request.type} -> image="${request.image}"`,
+    );
+  } else if (target.getOciRegistryConfig(cwd)) {
+    const { file, entry } = registryConfigEntry(target, cwd);
+    logger.log(
+      `verifyConditions: registry config "${file}" -> ` +
+        (entry.source === 'helper'
+          ? `credential helper "${entry.helper}"`
+          : 'stored credentials') +
+        ` for ${entry.key}`,
+    );
+  }
+
+  await verifyRegistry(
+    target,
+    await ociAuthFor(target, cwd, logger),
+    cwd,
+    logger,
+  );
 }
 
 /**
  * semantic-release `verifyConditions` step. Verifies that:
- * - Docker is available,
- * - required Docker images can be pulled,
- * - the Chart.yaml exists at the configured path,
- * - OCI configuration is coherent if provided.
- * - Git configuration and gh-pages access is valid if enabled.
+ * - a container engine (Docker, Podman or nerdctl) is available and the
+ *   required images can be pulled, or with the `native` runtime, the
+ *   host binaries print their versions,
+ * - a Chart.yaml exists for every configured chart,
+ * - the appVersion source file exists when one is configured,
+ * - OCI configuration is coherent if provided, and a configured registry
+ *   config exists and has an entry for the OCI registry,
+ * - the OCI registry is reachable and accepts the credentials, using a
+ *   dry login and a catalog request; with `ociRepos`, every enabled
+ *   target is checked and all failures are reported together,
+ * - cosign has a repository to sign in and a private key if enabled.
+ * - Git configuration, gh-pages access and the URL strategy are valid
+ *   if enabled.
  *
  * The method logs the effective Helm/docs images, reports whether GH Pages
  * mode is enabled and the resolved public URL, and rejects incomplete OCI
@@ -135,16 +309,28 @@ export async function verifyConditions(
 ): Promise<void> {
   const { logger, cwd } = context;
   const cfg = new HelmConfig(pluginConfig);
+  registerSecrets(...cfg.getSecrets());
 
   logger.log('verifyConditions: starting');
 
-  try {
-    void runHostCmd('docker version', cwd, logger);
-  } catch {
-    throw new SemanticReleaseError(
-      'Docker not available.',
-      'ENODOCKER',
-      'Docker must be installed and on PATH.',
+  const runtime = resolveRuntime(cfg);
+  logger.log(`verifyConditions: runtime=${runtime} (${cfg.getRuntime()})`);
+  if (runtime === 'docker') {
+    const engine = resolveEngine(cfg);
+    if (!engine) {
+      const wanted = cfg.getContainerEngine();
+      throw new SemanticReleaseError(
+        'Docker not available.',
+        'ENODOCKER',
+        wanted
+          ? `containerEngine "${wanted}" must be installed and on PATH.`
+          : 'Docker, Podman or nerdctl must be installed and on PATH, ' +
+            'or set runtime to native.',
+      );
+    }
+    logger.log(
+      `verifyConditions: container engine=${engine.name}` +
+        (engine.rootless ? ' (rootless)' : ''),
     );
   }
 
@@ -153,18 +339,81 @@ export async function verifyConditions(
   logger.log(
     `verifyConditions: helmImage="${helmImage}", docsImage="${docsImage}"`,
   );
-  await verifyDockerImage(helmImage, logger);
-  await verifyDockerImage(docsImage, logger);
+  await verifyDockerImage(cfg, helmImage, logger);
+  await verifyDockerImage(cfg, docsImage, logger);
+  if (runtime === 'native') {
+    // images are pulled on first use; host binaries must already exist
+    if (cfg.isOciEnabled()) {
+      await verifyDockerImage(cfg, cfg.getOrasImage(), logger);
+    }
+    if (cfg.isCosignEnabled()) {
+      await verifyDockerImage(cfg, cfg.getCosignImage(), logger);
+    }
+  }
 
-  const chartYamlPath = `${cwd}/${cfg.getChartPath()}/Chart.yaml`;
-  if (!fs.existsSync(chartYamlPath)) {
+  const chartPaths = cfg.getChartPaths(cwd);
+  if (chartPaths.length === 0) {
     throw new SemanticReleaseError(
       'Chart.yaml not found.',
       'EMISSINGCHARTYAML',
-      `No Chart.yaml found in ${cfg.getChartPath()}.`,
+      cfg.isMultiChart()
+        ? `No Chart.yaml matched ${cfg.getChartPatterns().join(', ')}.`
+        : 'Either chartPath or charts must be configured.',
+    );
+  }
+  for (const chartPath of chartPaths) {
+    const chartYamlPath = `${cwd}/${chartPath}/Chart.yaml`;
+    if (!fs.existsSync(chartYamlPath)) {
+      throw new SemanticReleaseError(
+        'Chart.yaml not found.',
+        'EMISSINGCHARTYAML',
+        `No Chart.yaml found in ${chartPath}.`,
+      );
+    }
+    logger.log(`verifyConditions: found chart at ${chartYamlPath}`);
+  }
+
+  if (cfg.isSignEnabled()) {
+    const keyring = cfg.getSignKeyring();
+    if (!cfg.getSignKey()) {
+      throw new SemanticReleaseError(
+        'Signing key not configured.',
+        'ESIGNCONFIG',
+        'Set sign.key to the name, email or fingerprint of the GPG key.',
+      );
+    }
+    if (keyring && !fs.existsSync(path.resolve(cwd, keyring))) {
+      throw new SemanticReleaseError(
+        'Signing keyring not found.',
+        'ESIGNCONFIG',
+        `Expected the secret keyring at ${keyring}.`,
+      );
+    }
+    if (!keyring && !cfg.getSignKeyringBase64()) {
+      throw new SemanticReleaseError(
+        'Signing keyring not configured.',
+        'ESIGNCONFIG',
+        'Set sign.keyring to a keyring file, or provide a base64 keyring ' +
+          'in sign.keyringBase64 or HELM_SIGN_KEYRING_BASE64.',
+      );
+    }
+    logger.log(
+      `verifyConditions: signing with key "${cfg.getSignKey()}", ` +
+        `passphrasePresent=${cfg.getSignPassphrase() !== undefined}`,
+    );
+  }
+
+  const appVersionSource = cfg.getAppVersionSource();
+  if (
+    typeof appVersionSource === 'object' &&
+    !fs.existsSync(path.resolve(cwd, appVersionSource.file))
+  ) {
+    throw new SemanticReleaseError(
+      'appVersion source file not found.',
+      'EAPPVERSIONSOURCE',
+      `Expected ${appVersionSource.file} to exist to read the chart appVersion.`,
     );
   }
-  logger.log(`verifyConditions: found chart at ${chartYamlPath}`);
 
   if (cfg.isGhEnabled()) {
     const url = cfg.getGhUrl();
@@ -174,8 +423,46 @@ export async function verifyConditions(
         `${url ?? '(none; index will be written without --url)'}`,
     );
 
+    const ghPath = cfg.getGhPath();
+    if (ghPath.split('/').includes('..') || path.isAbsolute(ghPath)) {
+      throw new SemanticReleaseError(
+        'Invalid gh-pages path.',
+        'EINVALIDGHPATH',
+        `ghPages.path must stay inside the branch, got "${ghPath}".`,
+      );
+    }
+    const prereleaseIndex = cfg.getGhIndexFileFor(true);
+    if (
+      prereleaseIndex.split('/').includes('..') ||
+      path.isAbsolute(prereleaseIndex) ||
+      /\.ya?ml\/index\.yaml$/.test(prereleaseIndex)
+    ) {
+      throw new SemanticReleaseError(
+        'Invalid gh-pages prerelease index.',
+        'EINVALIDGHPATH',
+        'ghPages.prereleaseIndex must be a directory inside ghPages.path, ' +
+          `such as "prerelease", got "${path.posix.dirname(prereleaseIndex)}". ` +
+          'Helm clients only fetch index.yaml, so the prerelease index is ' +
+          'written to index.yaml in that directory.',
+      );
+    }
+
+    const strategy = cfg.getGhUrlStrategy();
+    if (
+      strategy !== 'pages' &&
+      strategy !== 'github-release' &&
+      !strategy.includes('${')
+    ) {
+      throw new SemanticReleaseError(
+        'Invalid gh-pages URL strategy.',
+        'EINVALIDURLSTRATEGY',
+        `ghPages.urlStrategy must be "pages", "github-release" or a URL ` +
+          `template such as "https://cdn.example/\${filename}", got "${strategy}".`,
+      );
+    }
+
     try {
-      runHostCmd('git --version', cwd, logger);
+      await runHostCmd(['git', '--version'], cwd, logger);
     } catch {
       throw new SemanticReleaseError(
         'Git not available for gh-pages publishing.',
@@ -185,7 +472,7 @@ export async function verifyConditions(
     }
 
     try {
-      runHostCmd('git rev-parse --git-dir', cwd, logger);
+      await runHostCmd(['git', 'rev-parse', '--git-dir'], cwd, logger);
     } catch {
       throw new SemanticReleaseError(
         'Not in a git repository.',
@@ -195,7 +482,7 @@ export async function verifyConditions(
     }
 
     try {
-      runHostCmd(`git remote get-url ${ghRepo}`, cwd, logger);
+      await runHostCmd(['git', 'remote', 'get-url', ghRepo], cwd, logger);
     } catch {
       throw new SemanticReleaseError(
         `Git remote "${ghRepo}" not found.`,
@@ -205,7 +492,7 @@ export async function verifyConditions(
     }
 
     try {
-      runHostCmd(`git ls-remote --heads ${ghRepo}`, cwd, logger);
+      await runHostCmd(['git', 'ls-remote', '--heads', ghRepo], cwd, logger);
       logger.log(`verifyConditions: remote "${ghRepo}" is accessible`);
     } catch {
       throw new SemanticReleaseError(
@@ -216,363 +503,1455 @@ export async function verifyConditions(
     }
   }
 
-  if (cfg.isOciEnabled()) {
-    const haveUser = cfg.hasOciUser();
-    const havePass = cfg.hasOciPass();
+  if (cfg.isCosignEnabled()) {
+    if (!cfg.isOciEnabled()) {
+      throw new SemanticReleaseError(
+        'cosign signing requires an OCI repository.',
+        'ECOSIGNCONFIG',
+        'Set ociRepo, or remove the cosign block.',
+      );
+    }
+    if (!process.env[cfg.getCosignKeyEnv()]) {
+      throw new SemanticReleaseError(
+        'cosign private key not found.',
+        'ECOSIGNCONFIG',
+        `Expected the private key in the ${cfg.getCosignKeyEnv()} ` +
+          'environment variable.',
+      );
+    }
     logger.log(
-      `verifyConditions: OCI enabled -> repo="${cfg.getOciRepo()}", ` +
-        `insecure=${cfg.getOciInsecure()}, ` +
-        `usernamePresent=${haveUser}, passwordPresent=${havePass}`,
+      `verifyConditions: cosign enabled -> image="${cfg.getCosignImage()}", ` +
+        `attestations=${cfg.getCosignAttestations().length}`,
+    );
+  }
+
+  const ociRepos = cfg.getOciRepos();
+  if (ociRepos !== undefined) {
+    if (cfg.getOciRepo() || cfg.getOciRegistryConfig(cwd) || cfg.getOciAuth()) {
+      throw new SemanticReleaseError(
+        'Conflicting OCI repositories.',
+        'EOCICONFIG',
+        'Use ociRepos, or ociRepo with ociRegistryConfig and ociAuth, ' +
+          'not both. Each ociRepos entry carries its own credentials.',
+      );
+    }
+    const invalid = ociRepos.findIndex(
+      (t) => typeof t?.repo !== 'string' || !t.repo.startsWith('oci://'),
     );
-    if ((haveUser && !havePass) || (!haveUser && havePass)) {
+    if (invalid >= 0) {
       throw new SemanticReleaseError(
-        'Incomplete OCI credentials.',
-        'EOCICREDSINCOMPLETE',
-        'Provide both username and password, or neither.',
+        'Invalid OCI repository.',
+        'EOCICONFIG',
+        `ociRepos[${invalid}].repo must be an oci:// reference.`,
       );
     }
   }
 
+  if (cfg.isOciEnabled()) {
+    const targets = cfg.getOciTargets();
+    logger.log(
+      `verifyConditions: OCI enabled -> ${targets.length} target(s), ` +
+        `${(ociRepos?.length ?? 1) - targets.length} disabled`,
+    );
+    throwTargetFailures(
+      await forEachOciTarget(
+        targets,
+        (target) => verifyOciTarget(target, cwd, logger),
+        logger,
+      ),
+    );
+  } else if (cfg.getOciRegistryConfig(cwd) || cfg.getOciAuth()) {
+    throw new SemanticReleaseError(
+      'OCI authentication requires an OCI repository.',
+      'EREGISTRYCONFIG',
+      'Set ociRepo, or remove ociRegistryConfig and ociAuth.',
+    );
+  }
+
   logger.log('verifyConditions: ok');
 }
 
 /**
- * semantic-release `prepare` step. Performs all changes that must be included
- * in the release commit before publishing:
- * - sets the chart version in Chart.yaml to `nextRelease.version`,
- * - lints and templates the chart with Helm to fail early on errors,
- * - normalizes README markers back to the Go template call, then runs helm-docs,
- * - packages the chart into `dist/charts/*.tgz`.
- *
- * The function intentionally does not create `index.yaml` in `dist/charts` so
- * tests can assert that merge logic occurs only during the gh-pages publish
- * step.
+ * Flatten a nested values map into dotted `--set` pairs for `helm
+ * template`. Arrays and scalars are stringified as leaf values.
  *
- * @param pluginConfig Plugin configuration supplied by semantic-release.
- * @param context semantic-release context (cwd, logger, nextRelease).
- * @throws SemanticReleaseError if required inputs are missing or invalid.
+ * @param obj Nested values map.
+ * @param prefix Dotted key prefix used during recursion.
+ * @returns Map of dotted keys to stringified values.
  */
-export async function prepare(
-  pluginConfig: HelmPluginConfig,
-  context: Context,
-): Promise<void> {
-  const { cwd, nextRelease, logger } = context;
-  const cfg = new HelmConfig(pluginConfig);
-
-  logger.log('prepare: starting');
-
-  const version = nextRelease?.version;
-  if (!version) {
-    throw new SemanticReleaseError(
-      'Missing next release version.',
-      'ENOVERSION',
-      'semantic-release did not provide a nextRelease.version.',
-    );
-  }
+function flattenValues(
+  obj: Record<string, unknown>,
+  prefix = '',
+): Record<string, string> {
+  return Object.keys(obj).reduce((acc: Record<string, string>, k: string) => {
+    const pre = prefix.length ? `${prefix}.` : '';
+    const value = obj[k];
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.assign(
+        acc,
+        flattenValues(value as Record<string, unknown>, pre + k),
+      );
+    } else {
+      acc[pre + k] = String(value);
+    }
+    return acc;
+  }, {});
+}
 
-  const chartYamlPath = `${cwd}/${cfg.getChartPath()}/Chart.yaml`;
+/**
+ * Version, validate, document and package a single chart. This is the
+ * per-chart body of the `prepare` step and runs once for every chart
+ * resolved from the plugin configuration.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param chartPath Chart directory relative to `cwd`.
+ * @param version Version to stamp into Chart.yaml.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @param signing Staged signing material when the archive is signed.
+ * @returns Files modified in the working tree, relative to `cwd`.
+ * @throws SemanticReleaseError if Chart.yaml is missing.
+ */
+async function prepareChart(
+  cfg: HelmConfig,
+  chartPath: string,
+  version: string,
+  cwd: string,
+  logger: Context['logger'],
+  signing?: SigningFiles,
+): Promise<string[]> {
+  const chartYamlPath = `${cwd}/${chartPath}/Chart.yaml`;
   if (!fs.existsSync(chartYamlPath)) {
     throw new SemanticReleaseError(
       'Chart.yaml missing during prepare.',
       'EMISSINGCHARTYAML',
-      `Expected Chart.yaml in ${cfg.getChartPath()}.`,
+      `Expected Chart.yaml in ${chartPath}.`,
     );
   }
 
-  const raw = fs.readFileSync(chartYamlPath, 'utf8');
-  const updatedYaml = setChartVersion(raw, version);
-  fs.writeFileSync(chartYamlPath, updatedYaml, 'utf8');
-  logger.log(`prepare: updated Chart.yaml to version ${version}`);
+  const appVersion = resolveAppVersion(cfg.getAppVersionSource(), version, cwd);
+  const bumped = HelmChart.from(path.join(cwd, chartPath)).withVersion(version);
+  const chart =
+    appVersion === undefined ? bumped : bumped.withAppVersion(appVersion);
+  chart.saveTo(chartYamlPath);
+  logger.log(
+    `prepare: updated ${chartPath}/Chart.yaml to version ${version}` +
+      (appVersion === undefined ? '' : `, appVersion ${appVersion}`),
+  );
+
+  const chartAppVersion = chart.appVersion();
+  const valuesFiles = applyValuesUpdates(
+    path.join(cwd, chartPath),
+    cfg.getValuesUpdates(),
+    {
+      version,
+      ...(chartAppVersion === undefined ? {} : { appVersion: chartAppVersion }),
+    },
+  ).map((file) => path.posix.join(chartPath, file));
+  for (const file of valuesFiles) {
+    logger.log(`prepare: updated ${file} for version ${version}`);
+  }
 
   const helmImage = cfg.getHelmImage();
-  await runDockerCmd(helmImage, ['lint', cfg.getChartPath()], cwd, logger);
+  const templateValues = cfg.getTemplateValues();
+  await runDockerCmd(cfg, helmImage, ['lint', chartPath], cwd, logger);
   await runDockerCmd(
+    cfg,
     helmImage,
     [
       'template',
       'sr-check',
-      cfg.getChartPath(),
-      ...(() => {
-        const templateValues = cfg.getTemplateValues();
-        if (!templateValues) {
-          return [];
-        }
-
-        const flattenObject = (
-          obj: Record<string, unknown>,
-          prefix = '',
-        ): Record<string, string> =>
-          Object.keys(obj).reduce((acc: Record<string, string>, k: string) => {
-            const pre = prefix.length ? `${prefix}.` : '';
-            const value = obj[k];
-            if (
-              typeof value === 'object' &&
-              value !== null &&
-              !Array.isArray(value)
-            ) {
-              Object.assign(
-                acc,
-                flattenObject(value as Record<string, unknown>, pre + k),
-              );
-            } else {
-              acc[pre + k] = String(value);
-            }
-            return acc;
-          }, {});
-
-        return Object.entries(flattenObject(templateValues)).flatMap(
-          ([key, value]) => ['--set', `${key}=${value}`],
-        );
-      })(),
+      chartPath,
+      ...Object.entries(
+        templateValues ? flattenValues(templateValues) : {},
+      ).flatMap(([key, value]) => ['--set', `${key}=${value}`]),
     ],
     cwd,
     logger,
   );
 
-  const helmDocs = new DockerHelmDocs({ image: cfg.getDocsImage() });
+  const helmDocs = helmDocsFor(cfg);
   try {
-    await helmDocs.generate(cwd, cfg.getChartPath(), cfg.getDocsArgs(), logger);
-    logger.log('prepare: helm-docs succeeded');
+    await helmDocs.generate(cwd, chartPath, cfg.getDocsArgs(), logger);
+    logger.log(`prepare: helm-docs succeeded for ${chartPath}`);
   } catch {
     logger.log(
-      'prepare: helm-docs failed or missing; skipping docs generation',
+      `prepare: helm-docs failed or missing for ${chartPath}; ` +
+        'skipping docs generation',
     );
   }
 
-  const outDir = `${cwd}/dist/charts`;
-  if (!fs.existsSync(outDir)) {
-    fs.mkdirSync(outDir, { recursive: true });
-  }
   await runDockerCmd(
+    cfg,
     helmImage,
-    ['package', cfg.getChartPath(), '--destination=dist/charts'],
+    [
+      'package',
+      chartPath,
+      '--destination=dist/charts',
+      ...(signing?.args ?? []),
+    ],
     cwd,
     logger,
+    signing?.options,
+  );
+  logger.log(
+    `prepare: packaged ${chartPath} into dist/charts` +
+      (signing ? ' with a provenance file' : ''),
   );
-  logger.log('prepare: packaged chart(s) into dist/charts');
 
-  logger.log('prepare: ok');
+  return [path.posix.join(chartPath, 'Chart.yaml'), ...valuesFiles];
 }
 
 /**
- * semantic-release `publish` step. Publishes the packaged chart(s) to:
- * - an OCI registry (optional), and/or
- * - a GitHub Pages branch (default).
- *
- * OCI publish:
- * - optionally writes an insecure registry config for Helm if requested,
- * - performs a `helm registry login` when credentials are supplied,
- * - pushes each packaged `*.tgz` to the configured `ociRepo`.
+ * Classify a single file change inside a chart directory. Removing,
+ * retyping or renaming keys in `values.yaml` or tightening
+ * `values.schema.json` breaks
+ * user overrides and is major; adding a template is a new feature and
+ * minor; every other chart change is a patch.
  *
- * GitHub Pages publish:
- * - cleans any prior temporary worktree,
- * - fetches the remote branch and creates the worktree from:
- *   1) the remote branch when available,
- *   2) otherwise an existing local branch,
- *   3) otherwise a fresh orphan branch,
- * - copies `*.tgz` into the configured subdirectory,
- * - merges `index.yaml` in pure YAML to preserve history across charts,
- * - commits and pushes changes to the gh-pages branch,
- * - removes the temporary worktree.
- *
- * The remote-first worktree creation avoids non-fast-forward push failures when
- * a remote `gh-pages` already exists with history.
- *
- * @param pluginConfig Plugin configuration supplied by semantic-release.
- * @param context semantic-release context (cwd, logger).
- * @throws SemanticReleaseError if no packaged charts are present.
+ * @param change File change reported by git.
+ * @param chartPath Chart directory containing the file.
+ * @param hash Commit that made the change.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns The release type and a short reason for logging.
  */
-export async function publish(
-  pluginConfig: HelmPluginConfig,
-  context: Context,
-): Promise<void> {
-  const { cwd, logger } = context;
-  const cfg = new HelmConfig(pluginConfig);
-
-  logger.log('publish: starting');
-
-  const pkgDir = `${cwd}/dist/charts`;
-  const entries = fs.existsSync(pkgDir)
-    ? fs.readdirSync(pkgDir, { withFileTypes: true })
-    : [];
-  const files = entries
-    .filter((d) => d.isFile() && d.name.endsWith('.tgz'))
-    .map((d) => `dist/charts/${d.name}`);
-
-  if (files.length === 0) {
-    throw new SemanticReleaseError(
-      'No packaged chart found.',
-      'ENOPACKAGEDCHART',
-      'Prepare step must package chart before publish.',
-    );
-  }
-  logger.log(`publish: found ${files.length} packaged chart(s)`);
-
-  if (cfg.isOciEnabled()) {
-    const helmImage = cfg.getHelmImage();
-    const hostPort = cfg.getOciHostPort();
-    const plainHttpFlag = cfg.getOciPlainHttpFlag();
-    const insecureLoginFlag = cfg.getOciInsecureLoginFlag();
-    const username = cfg.getOciUsername();
-    const password = cfg.getOciPassword();
-    const haveUser = cfg.hasOciUser();
-    const havePass = cfg.hasOciPass();
-
-    logger.log(
-      `publish: OCI mode -> repo="${cfg.getOciRepo()}", ` +
-        `insecure=${cfg.getOciInsecure()}, ` +
-        `usernamePresent=${haveUser}, passwordPresent=${havePass}`,
-    );
+async function classifyChartChange(
+  change: FileChange,
+  chartPath: string,
+  hash: string,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<{ type: ReleaseType; reason: string }> {
+  const rel = path.posix.relative(chartPath, change.path);
+  const before = async (): Promise<string | undefined> =>
+    change.status === 'A'
+      ? undefined
+      : fileAtRevision(`${hash}^`, change.path, cwd, logger);
+  const after = async (): Promise<string | undefined> =>
+    change.status === 'D'
+      ? undefined
+      : fileAtRevision(hash, change.path, cwd, logger);
 
-    const steps: string[] = [];
-    if (cfg.getOciInsecure() && hostPort) {
-      const cfgJson = `{"auths":{"${hostPort}":{"insecure":true}}}`;
-      steps.push(
-        'mkdir --parents /root/.config/helm/registry',
-        `printf %s '${cfgJson}' > /root/.config/helm/registry/config.json`,
-      );
-    }
-    if (haveUser && havePass && hostPort) {
-      steps.push(
-        `helm registry login${insecureLoginFlag} --username=${username} --password=${password} ${hostPort}`,
+  if (rel === 'values.yaml' && change.status !== 'A') {
+    let previous: Record<string, unknown>;
+    let current: Record<string, unknown>;
+    try {
+      previous = parseValues(await before());
+      current = parseValues(await after());
+    } catch (err: unknown) {
+      logger.log(
+        `analyzeCommits: ${hash.slice(0, 7)} ${change.path} is not valid ` +
+          `YAML (${err instanceof Error ? err.message : String(err)}); ` +
+          'treating the change as a patch',
       );
+      return { type: 'patch', reason: `unparsable ${rel}` };
     }
-
-    for (const tgz of files) {
-      steps.push(`helm push ${tgz} ${cfg.getOciRepo()}${plainHttpFlag}`);
+    const changes = diffValues(previous, current);
+    if (changes.length > 0) {
+      const keys = changes.map((c) => `${c.key} (${c.kind})`).join(', ');
+      return { type: 'major', reason: `incompatible values ${keys}` };
     }
+  }
 
-    const script = steps.join(' && ');
-    await runDockerShell(helmImage, script, cwd, logger);
-
-    logger.log(
-      `{ "helm": { "pushed": ${files.length}, "repo": "${cfg.getOciRepo()}" } }`,
+  if (rel === 'values.schema.json') {
+    const tightened = schemaTightenings(
+      parseSchema(await before()),
+      parseSchema(await after()),
     );
+    if (tightened.length > 0) {
+      return { type: 'major', reason: tightened.join('; ') };
+    }
   }
 
-  if (cfg.isGhEnabled()) {
-    const ghBranch = cfg.getGhBranch();
-    const ghRepo = cfg.getGhRepo();
+  if (rel.startsWith('templates/') && change.status === 'A') {
+    return { type: 'minor', reason: `new template ${rel}` };
+  }
 
-    const tmpWorktree = path.join(cwd, '.gh-pages-tmp');
+  return { type: 'patch', reason: `changed ${rel}` };
+}
 
-    try {
-      runHostCmd(`git worktree remove "${tmpWorktree}" --force`, cwd, logger);
-    } catch {
-      logger.log('gh-pages cleanup: worktree not found (expected)');
-    }
-    runHostCmd(`rm --recursive --force "${tmpWorktree}"`, cwd, logger);
+/**
+ * semantic-release `analyzeCommits` step. Decides the release type from
+ * the files each commit changed inside the configured chart
+ * directories, ignoring commits that touch no chart at all:
+ * - `values.yaml` key removals and `values.schema.json` tightening are
+ *   major,
+ * - new files under `templates/` are minor,
+ * - any other change inside a chart is a patch.
+ *
+ * Returning `null` lets repositories that keep charts next to
+ * application code skip chart releases for application-only commits.
+ *
+ * @param pluginConfig Plugin configuration supplied by semantic-release.
+ * @param context semantic-release context (cwd, logger, commits).
+ * @returns The release type, or `null` when no chart changed.
+ */
+export async function analyzeCommits(
+  pluginConfig: HelmPluginConfig,
+  context: Context,
+): Promise<ReleaseType | null> {
+  const { cwd, commits, logger } = context;
+  const cfg = new HelmConfig(pluginConfig);
+  registerSecrets(...cfg.getSecrets());
 
-    const refCheck = `git show-ref --verify --quiet "refs/heads/${ghBranch}"`;
-    const addExisting = `git worktree add "${tmpWorktree}" ${ghBranch}`;
-    const addOrphan = [
-      `git worktree add --detach "${tmpWorktree}"`,
-      `git -C "${tmpWorktree}" switch --orphan ${ghBranch}`,
-      `git -C "${tmpWorktree}" reset --hard`,
-    ].join(' && ');
+  logger.log('analyzeCommits: starting');
 
-    try {
-      runHostCmd(`git fetch ${ghRepo} ${ghBranch}`, cwd, logger);
-    } catch {
-      logger.log('gh-pages: branch does not exist remotely (will create)');
-    }
-    const refRemoteCheck =
-      `git show-ref --verify --quiet ` + `"refs/remotes/${ghRepo}/${ghBranch}"`;
-    const addFromRemote =
-      `git worktree add "${tmpWorktree}" -B ${ghBranch} ` +
-      `${ghRepo}/${ghBranch}`;
+  // longest first, so files of a nested chart are not claimed by a
+  // chart above it, such as one at the repository root
+  const chartPaths = cfg
+    .getChartPaths(cwd)
+    .map(chartDir)
+    .sort((a, b) => b.length - a.length);
+  const types: ReleaseType[] = [];
 
-    runHostCmd(
-      `${refRemoteCheck} && (${addFromRemote}) || ` +
-        `(${refCheck} && (${addExisting}) || (${addOrphan}))`,
+  for (const commit of (commits ?? []) as ReleaseCommit[]) {
+    for (const change of await changedFilesWithStatus(
+      commit.hash,
       cwd,
       logger,
-    );
+    )) {
+      const chartPath = chartPaths.find((p) => isInChartDir(change.path, p));
+      if (chartPath === undefined) continue;
 
-    fs.mkdirSync(tmpWorktree, { recursive: true });
-
-    const indexPath = path.join(tmpWorktree, 'index.yaml');
-    let indexDoc = HelmIndex.fromFile(indexPath);
+      const { type, reason } = await classifyChartChange(
+        change,
+        chartPath,
+        commit.hash,
+        cwd,
+        logger,
+      );
+      logger.log(
+        `analyzeCommits: ${commit.hash.slice(0, 7)} ${chartPath || '.'}: ` +
+          `${type} (${reason})`,
+      );
+      types.push(type);
+    }
+  }
 
-    const chart = HelmChart.from(path.join(cwd, cfg.getChartPath()));
+  const releaseType = maxReleaseType(types) ?? null;
+  logger.log(`analyzeCommits: release type ${releaseType ?? '(none)'}`);
+  return releaseType;
+}
 
-    const remoteUrl = execSync(`git remote get-url ${ghRepo}`, {
-      cwd,
-      encoding: 'utf8',
-    }).trim();
-    const repoPath = remoteUrl
-      .replace(/^git@github\.com:/, '')
-      .replace(/^https:\/\/github\.com\//, '')
-      .replace(/\.git$/, '');
+/**
+ * A chart scheduled for release by `prepare`, with the version it is
+ * released under and the release type that produced that version.
+ */
+interface ChartPlan {
+  chartPath: string;
+  version: string;
+  type?: string;
+}
 
-    for (const tgz of files) {
-      const abs = path.isAbsolute(tgz) ? tgz : path.join(cwd, tgz);
-      const filename = path.basename(abs);
-      const version = filename.match(/-(\d+\.\d+\.\d+)\.tgz$/)?.[1] || '0.0.0';
-      const githubReleaseUrl = `https://github.com/${repoPath}/releases/download/v${version}/${filename}`;
+/**
+ * Decide which charts are released and under which version. Lockstep
+ * mode releases every chart as `version`. Independent mode attributes
+ * `commits` to charts and bumps each changed chart from its current
+ * Chart.yaml version by the highest release type among its commits;
+ * charts without commits are omitted from the plan.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param chartPaths Chart directories relative to `cwd`.
+ * @param version The semantic-release next version.
+ * @param type The semantic-release next release type.
+ * @param commits Commits included in this release.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns Charts to release with their target versions.
+ */
+async function planChartVersions(
+  cfg: HelmConfig,
+  chartPaths: string[],
+  version: string,
+  type: string | undefined,
+  commits: ReleaseCommit[],
+  cwd: string,
+  logger: Context['logger'],
+): Promise<ChartPlan[]> {
+  if (!cfg.isIndependentVersioning()) {
+    return chartPaths.map((chartPath) => ({ chartPath, version, type }));
+  }
 
-      indexDoc = indexDoc.append(chart, abs, '', {
-        urls: [githubReleaseUrl] as string[],
-      });
+  const filesByCommit = new Map<string, string[]>();
+  if (cfg.getCommitMatch() !== 'scope') {
+    for (const commit of commits) {
+      if (!filesByCommit.has(commit.hash)) {
+        filesByCommit.set(
+          commit.hash,
+          await changedFiles(commit.hash, cwd, logger),
+        );
+      }
     }
+  }
 
-    indexDoc.writeTo(indexPath);
-
-    logger.log('gh-pages: running git status before add');
-    runHostCmd(
-      `git -C "${tmpWorktree}" status --untracked-files=all`,
-      cwd,
-      logger,
+  const plan: ChartPlan[] = [];
+  for (const chartPath of chartPaths) {
+    const chart = HelmChart.from(path.join(cwd, chartPath));
+    const relevant = commits.filter((commit) =>
+      commitMatchesChart(
+        commit,
+        filesByCommit.get(commit.hash) ?? [],
+        { path: chartPath, name: chart.name() },
+        cfg.getCommitMatch(),
+      ),
     );
+    const chartType = maxReleaseType(
+      relevant.map((commit) => commitReleaseType(commit.message)),
+    );
+    if (!chartType) {
+      logger.log(`prepare: no commits for ${chartPath}; leaving it unchanged`);
+      continue;
+    }
+    const next = incrementVersion(chart.version() ?? '0.0.0', chartType);
+    logger.log(
+      `prepare: ${relevant.length} commit(s) touch ${chartPath}; ` +
+        `${chartType} bump ${chart.version() ?? '(none)'} -> ${next}`,
+    );
+    plan.push({ chartPath, version: next, type: chartType });
+  }
+  return plan;
+}
 
-    runHostCmd(`git -C "${tmpWorktree}" add .`, cwd, logger);
-
-    logger.log('gh-pages: running git status after add');
-    runHostCmd(`git -C "${tmpWorktree}" status`, cwd, logger);
-    logger.log('gh-pages: showing staged file diff');
-    runHostCmd(`git -C "${tmpWorktree}" diff --staged --stat`, cwd, logger);
+/**
+ * Compare a chart's values.yaml at the last release tag with the
+ * working tree and reject breaking changes released under a
+ * non-major version. Every incompatible change is logged so the
+ * failure explains exactly which overrides would break.
+ *
+ * @param chartPath Chart directory relative to `cwd`.
+ * @param type Release type the chart is about to be released under.
+ * @param lastTag Git tag of the previous release, if any.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @throws SemanticReleaseError when breaking values changes are found
+ *   and the release is not major.
+ */
+async function verifyValuesCompatibility(
+  chartPath: string,
+  type: string | undefined,
+  lastTag: string | undefined,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<void> {
+  if (!lastTag) {
+    logger.log(`prepare: no previous release; skipping values check`);
+    return;
+  }
+  const previousText = await fileAtRevision(
+    lastTag,
+    `${chartPath}/values.yaml`,
+    cwd,
+    logger,
+  );
+  if (previousText === undefined) {
+    logger.log(
+      `prepare: ${chartPath}/values.yaml absent at ${lastTag}; ` +
+        'skipping values check',
+    );
+    return;
+  }
 
-    const gitAuthorName = process.env.GIT_AUTHOR_NAME || COMMIT_NAME;
-    const gitAuthorEmail = process.env.GIT_AUTHOR_EMAIL || COMMIT_EMAIL;
+  const chart = HelmChart.from(path.join(cwd, chartPath));
+  const changes = chart.valuesChangesSince(parseValues(previousText));
+  if (changes.length === 0) {
+    logger.log(`prepare: ${chartPath} values compatible with ${lastTag}`);
+    return;
+  }
 
-    try {
-      runHostCmd(
-        `git -C "${tmpWorktree}" -c user.name="${gitAuthorName}" -c user.email="${gitAuthorEmail}" commit --message="docs(charts): update Helm repo (merge index) [skip ci]"`,
+  for (const change of changes) {
+    logger.log(
+      `prepare: ${chartPath} values ${change.kind}: ${change.key} ` +
+        `(${change.detail})`,
+    );
+  }
+  if (type === 'major' || type === 'premajor') {
+    logger.log(`prepare: breaking values changes allowed in a major release`);
+    return;
+  }
+  throw new SemanticReleaseError(
+    'Breaking values.yaml changes in a non-major release.',
+    'EBREAKINGVALUES',
+    `${chartPath}/values.yaml changed incompatibly since ${lastTag}: ` +
+      changes.map((c) => `${c.key} ${c.kind} (${c.detail})`).join(', ') +
+      `. Release it as a major version or restore the previous keys.`,
+  );
+}
+
+/**
+ * semantic-release `prepare` step. Performs all changes that must be included
+ * in the release commit before publishing. Unless disabled, it first
+ * rejects breaking values.yaml changes since the last release tag when the
+ * release is not major. Then, for every configured chart it:
+ * - sets the chart version in Chart.yaml to `nextRelease.version`, or to
+ *   the chart's own next version in independent mode, skipping charts
+ *   without commits, and updates `appVersion` when a source is configured,
+ * - rewrites the configured `valuesUpdates` paths from the version,
+ * - lints and templates the chart with Helm to fail early on errors,
+ * - normalizes README markers back to the Go template call, then runs helm-docs,
+ * - packages the chart into `dist/charts/*.tgz`, signed with a
+ *   `.tgz.prov` provenance file when `sign` is configured.
+ *
+ * The function intentionally does not create `index.yaml` in `dist/charts` so
+ * tests can assert that merge logic occurs only during the gh-pages publish
+ * step.
+ *
+ * @param pluginConfig Plugin configuration supplied by semantic-release.
+ * @param context semantic-release context (cwd, logger, nextRelease,
+ *   lastRelease, commits).
+ * @throws SemanticReleaseError if required inputs are missing or invalid.
+ */
+export async function prepare(
+  pluginConfig: HelmPluginConfig,
+  context: Context,
+): Promise<void> {
+  const { cwd, nextRelease, lastRelease, commits, logger } = context;
+  const cfg = new HelmConfig(pluginConfig);
+  registerSecrets(...cfg.getSecrets());
+
+  logger.log('prepare: starting');
+
+  const version = nextRelease?.version;
+  if (!version) {
+    throw new SemanticReleaseError(
+      'Missing next release version.',
+      'ENOVERSION',
+      'semantic-release did not provide a nextRelease.version.',
+    );
+  }
+
+  const chartPaths = cfg.getChartPaths(cwd);
+  if (chartPaths.length === 0) {
+    throw new SemanticReleaseError(
+      'Chart.yaml missing during prepare.',
+      'EMISSINGCHARTYAML',
+      'No chart matched the configured chartPath or charts.',
+    );
+  }
+
+  const outDir = `${cwd}/dist/charts`;
+  if (!fs.existsSync(outDir)) {
+    fs.mkdirSync(outDir, { recursive: true });
+  }
+
+  const plan = await planChartVersions(
+    cfg,
+    chartPaths,
+    version,
+    nextRelease?.type,
+    (commits ?? []) as ReleaseCommit[],
+    cwd,
+    logger,
+  );
+  if (cfg.isValuesCheckEnabled()) {
+    for (const item of plan) {
+      await verifyValuesCompatibility(
+        item.chartPath,
+        item.type,
+        lastRelease?.gitTag,
         cwd,
         logger,
       );
-    } catch (err) {
-      const errMsg = err instanceof Error ? err.message : String(err);
-      if (
-        errMsg.includes('nothing to commit') ||
-        errMsg.includes('no changes added')
-      ) {
-        logger.log('gh-pages: no changes to commit');
-      } else {
-        throw err;
+    }
+  }
+  const touched: string[] = [];
+  const signing = cfg.isSignEnabled() ? writeSigningFiles(cfg, cwd) : undefined;
+  try {
+    for (const item of plan) {
+      touched.push(
+        ...(await prepareChart(
+          cfg,
+          item.chartPath,
+          item.version,
+          cwd,
+          logger,
+          signing,
+        )),
+      );
+    }
+  } finally {
+    if (signing) {
+      removeSigningFiles(signing.dir);
+    }
+  }
+  logger.log(`prepare: packaged ${plan.length} chart(s) into dist/charts`);
+  if (touched.length > 0) {
+    logger.log(`prepare: modified files: ${touched.join(', ')}`);
+  }
+
+  logger.log('prepare: ok');
+}
+
+/**
+ * Derive `owner/repo` from the gh-pages remote URL, accepting the SSH
+ * and HTTPS forms GitHub hands out.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param cwd Repository root.
+ * @returns Repository path such as `my-org/charts`.
+ */
+async function githubRepoPath(cfg: HelmConfig, cwd: string): Promise<string> {
+  const { stdout: remoteUrl } = await runCommand(
+    ['git', 'remote', 'get-url', cfg.getGhRepo()],
+    { cwd },
+  );
+  return remoteUrl
+    .replace(/^git@github\.com:/, '')
+    .replace(/^https:\/\/github\.com\//, '')
+    .replace(/\.git$/, '');
+}
+
+/**
+ * Group released items by the gh-pages branch and index file they are
+ * published to. Prereleases go to `prereleaseBranch` and the
+ * `index.yaml` in `prereleaseIndex` when configured, everything else to
+ * the stable branch and `index.yaml`.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param items Items to route, such as packaged archives.
+ * @param versionOf Version of an item.
+ * @returns Items keyed by branch, then by index file.
+ */
+function groupByGhTarget<T>(
+  cfg: HelmConfig,
+  items: T[],
+  versionOf: (item: T) => string,
+): Map<string, Map<string, T[]>> {
+  const targets = new Map<string, Map<string, T[]>>();
+  for (const item of items) {
+    const prerelease = isPrereleaseVersion(versionOf(item));
+    const branch = cfg.getGhBranchFor(prerelease);
+    const indexFile = cfg.getGhIndexFileFor(prerelease);
+    const byIndex = targets.get(branch) ?? new Map<string, T[]>();
+    byIndex.set(indexFile, [...(byIndex.get(indexFile) ?? []), item]);
+    targets.set(branch, byIndex);
+  }
+  return targets;
+}
+
+/**
+ * Check out a gh-pages branch in a temporary worktree, let `update`
+ * change its content, then commit and push the result:
+ * - cleans any prior temporary worktree,
+ * - fetches the remote branch and creates the worktree from:
+ *   1) the remote branch when available,
+ *   2) otherwise an existing local branch,
+ *   3) otherwise a fresh orphan branch,
+ * - commits all changes in one commit and pushes it,
+ * - removes the temporary worktree.
+ *
+ * The remote-first worktree creation avoids non-fast-forward push failures when
+ * a remote branch already exists with history.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param ghBranch Branch to update.
+ * @param update Callback receiving the worktree directory.
+ * @param message Commit message.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ */
+async function updateGhPagesBranch(
+  cfg: HelmConfig,
+  ghBranch: string,
+  update: (worktree: string) => void | Promise<void>,
+  message: string,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<void> {
+  const ghRepo = cfg.getGhRepo();
+  const git = (...args: string[]) => runHostCmd(['git', ...args], cwd, logger);
+  const hasRef = async (ref: string): Promise<boolean> =>
+    (
+      await runCommand(['git', 'show-ref', '--verify', '--quiet', ref], {
+        cwd,
+        reject: false,
+      })
+    ).code === 0;
+
+  const tmpWorktree = path.join(cwd, '.gh-pages-tmp');
+
+  try {
+    await git('worktree', 'remove', tmpWorktree, '--force');
+  } catch {
+    logger.log('gh-pages cleanup: worktree not found (expected)');
+  }
+  fs.rmSync(tmpWorktree, { recursive: true, force: true });
+
+  try {
+    await git('fetch', ghRepo, ghBranch);
+  } catch {
+    logger.log('gh-pages: branch does not exist remotely (will create)');
+  }
+
+  if (await hasRef(`refs/remotes/${ghRepo}/${ghBranch}`)) {
+    await git(
+      'worktree',
+      'add',
+      tmpWorktree,
+      '-B',
+      ghBranch,
+      `${ghRepo}/${ghBranch}`,
+    );
+  } else if (await hasRef(`refs/heads/${ghBranch}`)) {
+    await git('worktree', 'add', tmpWorktree, ghBranch);
+  } else {
+    await git('worktree', 'add', '--detach', tmpWorktree);
+    await git('-C', tmpWorktree, 'switch', '--orphan', ghBranch);
+    await git('-C', tmpWorktree, 'reset', '--hard');
+  }
+
+  fs.mkdirSync(tmpWorktree, { recursive: true });
+
+  await update(tmpWorktree);
+
+  logger.log('gh-pages: running git status before add');
+  await git('-C', tmpWorktree, 'status', '--untracked-files=all');
+
+  await git('-C', tmpWorktree, 'add', '.');
+
+  logger.log('gh-pages: running git status after add');
+  await git('-C', tmpWorktree, 'status');
+  logger.log('gh-pages: showing staged file diff');
+  await git('-C', tmpWorktree, 'diff', '--staged', '--stat');
+
+  const gitAuthorName = process.env.GIT_AUTHOR_NAME || COMMIT_NAME;
+  const gitAuthorEmail = process.env.GIT_AUTHOR_EMAIL || COMMIT_EMAIL;
+
+  try {
+    await git(
+      '-C',
+      tmpWorktree,
+      '-c',
+      `user.name=${gitAuthorName}`,
+      '-c',
+      `user.email=${gitAuthorEmail}`,
+      'commit',
+      `--message=${message}`,
+    );
+  } catch (err) {
+    // git reports a clean tree on stdout, not in the error message
+    const stdout = (err as { stdout?: string | Buffer } | null)?.stdout;
+    const errMsg =
+      (err instanceof Error ? err.message : String(err)) +
+      (stdout?.toString() ?? '');
+    if (
+      errMsg.includes('nothing to commit') ||
+      errMsg.includes('no changes added')
+    ) {
+      logger.log('gh-pages: no changes to commit');
+    } else {
+      throw err;
+    }
+  }
+
+  await git('-C', tmpWorktree, 'push', ghRepo, ghBranch);
+
+  try {
+    await git('worktree', 'remove', tmpWorktree, '--force');
+  } catch {
+    logger.log('gh-pages worktree cleanup: already removed');
+  }
+}
+
+/**
+ * Look up which packaged charts already exist in the OCI repository,
+ * before anything is pushed. Identical versions are returned so the
+ * push can skip them; versions with other content fail the release.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param auth Registry authentication from `resolveOciAuth`.
+ * @param packages Packaged charts to publish.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns Existing pushes by archive path.
+ * @throws SemanticReleaseError `EVERSIONEXISTS` when a version exists
+ *         with different content, and `EOCILOOKUP` when a version
+ *         cannot be looked up.
+ */
+async function publishedOciCharts(
+  cfg: HelmConfig,
+  auth: OciAuth,
+  packages: Array<{ abs: string; chart: HelmChart }>,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<Map<string, PushedChart>> {
+  const repo = cfg.getOciRepoPath();
+  const flags = cfg.getOciInsecure() ? ['--plain-http'] : [];
+
+  const existing = new Map<string, PushedChart>();
+  for (const { abs, chart } of packages) {
+    const ref = chartReference(repo, chart.name(), chart.version() ?? '');
+    const manifest = await fetchPublishedManifest(ref, () =>
+      runOciScript(
+        cfg,
+        cfg.getOrasImage(),
+        'oras',
+        auth,
+        MANIFEST_FETCH_SCRIPT,
+        [...flags, ref],
+        cwd,
+        logger,
+      ),
+    );
+    const published = manifest
+      ? (manifest.layerDigest ?? manifest.digest)
+      : undefined;
+    const chartRef = { name: chart.name(), version: chart.version() ?? '' };
+    if (
+      manifest &&
+      isAlreadyPublished(`oci://${repo}`, chartRef, published, fileDigest(abs))
+    ) {
+      logger.log(`publish: ${ref} is already published; skipping push`);
+      existing.set(abs, { ref, digest: manifest.digest });
+    }
+  }
+  return existing;
+}
+
+/**
+ * Look up which packaged charts are already listed in the gh-pages
+ * index they would be added to, reading the index from the fetched
+ * branch before anything is published.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param packages Packaged charts to publish.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns Archive paths already listed with the same digest.
+ * @throws SemanticReleaseError `EVERSIONEXISTS` when a version is
+ *         listed with a different digest.
+ */
+async function publishedGhCharts(
+  cfg: HelmConfig,
+  packages: Array<{ abs: string; chart: HelmChart }>,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<Set<string>> {
+  const ghRepo = cfg.getGhRepo();
+  const found = new Set<string>();
+  const targets = groupByGhTarget(
+    cfg,
+    packages,
+    ({ chart }) => chart.version() ?? '',
+  );
+  for (const [branch, indexFiles] of targets) {
+    try {
+      await runHostCmd(['git', 'fetch', ghRepo, branch], cwd, logger);
+    } catch {
+      logger.log(`gh-pages: branch ${branch} does not exist remotely`);
+    }
+    for (const [indexFile, items] of indexFiles) {
+      const file = path.posix.join(cfg.getGhPath(), indexFile);
+      const text =
+        (await fileAtRevision(`${ghRepo}/${branch}`, file, cwd, logger)) ??
+        (await fileAtRevision(branch, file, cwd, logger));
+      const index = text ? HelmIndex.parse(text) : HelmIndex.empty();
+      for (const { abs, chart } of items) {
+        const chartRef = { name: chart.name(), version: chart.version() ?? '' };
+        const published = index.digestOf(chartRef.name, chartRef.version);
+        if (
+          isAlreadyPublished(
+            `gh-pages ${branch}:${file}`,
+            chartRef,
+            published,
+            fileDigest(abs),
+          )
+        ) {
+          logger.log(
+            `publish: ${chartRef.name} ${chartRef.version} is already in ` +
+              `${file} on ${branch}; skipping`,
+          );
+          found.add(abs);
+        }
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Tag chart artifacts in the OCI repository with a release channel so
+ * registry consumers can follow `next`, `beta` or `latest`. Helm cannot
+ * add tags to an existing artifact, so this runs `oras` in a container,
+ * logging in first or mounting the registry config as `auth` requires.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param auth Registry authentication from `resolveOciAuth`.
+ * @param refs Chart names and versions already present in the repo.
+ * @param tag Channel tag to apply.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ */
+async function tagOciChannel(
+  cfg: HelmConfig,
+  auth: OciAuth,
+  refs: Array<{ name: string; version: string }>,
+  tag: string,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<void> {
+  if (refs.length === 0) {
+    return;
+  }
+  const repo = cfg.getOciRepoPath();
+  const flags = cfg.getOciInsecure() ? ['--plain-http'] : [];
+
+  for (const ref of refs) {
+    await runOciScript(
+      cfg,
+      cfg.getOrasImage(),
+      'oras',
+      auth,
+      'exec oras tag "$@"',
+      [...flags, chartReference(repo, ref.name, ref.version), tag],
+      cwd,
+      logger,
+    );
+  }
+  logger.log(
+    JSON.stringify({
+      helm: { tagged: refs.length, channel: tag, repo: cfg.getOciRepo() },
+    }),
+  );
+}
+
+/**
+ * Resolve how containers authenticate against the OCI registry. A cloud
+ * token exchange configured with `ociAuth` takes precedence; otherwise
+ * the registry config or username and password are used.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns The authentication to use.
+ */
+async function ociAuthFor(
+  cfg: HelmConfig,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<OciAuth> {
+  if (cfg.getOciAuth()) {
+    return { kind: 'login', ...(await cloudCredentials(cfg, cwd, logger)) };
+  }
+  return resolveOciAuth(cfg, cwd);
+}
+
+/**
+ * Find the push `helm push` reported for a chart version.
+ *
+ * @param pushed References and digests parsed from `helm push`.
+ * @param name Chart name.
+ * @param version Chart version.
+ * @returns The matching push, or `undefined`.
+ */
+function findPushed(
+  pushed: PushedChart[],
+  name: string,
+  version: string,
+): PushedChart | undefined {
+  return pushed.find((p) => p.ref.endsWith(`/${name}:${ociTag(version)}`));
+}
+
+/**
+ * Sign every pushed chart with cosign by digest and attach the
+ * configured attestations. Each archive is matched to the reference
+ * `helm push` reported for it. Login credentials are staged as a
+ * Docker config for the duration of the cosign runs.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param auth Registry authentication from `resolveOciAuth`.
+ * @param packages Packaged charts that were pushed.
+ * @param pushed References and digests parsed from `helm push`.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @throws SemanticReleaseError when a pushed chart has no digest.
+ */
+async function signPushedCharts(
+  cfg: HelmConfig,
+  auth: OciAuth,
+  packages: Array<{ chart: HelmChart }>,
+  pushed: PushedChart[],
+  cwd: string,
+  logger: Context['logger'],
+): Promise<void> {
+  const matches = packages.map(({ chart }) => {
+    const name = chart.name();
+    const version = chart.version() ?? '';
+    const match = findPushed(pushed, name, version);
+    if (!match) {
+      throw new SemanticReleaseError(
+        'Pushed chart digest not found.',
+        'ECOSIGNDIGEST',
+        `helm push did not report a digest for ${name} ${version}; ` +
+          'refusing to sign by tag.',
+      );
+    }
+    return { name, version, match };
+  });
+
+  const staged =
+    auth.kind === 'login'
+      ? writeRegistryAuth(auth, cfg.getOciHostPort() ?? '')
+      : undefined;
+  const opts = registryConfigOptions(
+    staged ? { kind: 'config', file: staged } : auth,
+    cwd,
+  );
+  const env = [...cosignEnv(cfg), ...(opts.env ?? [])];
+  try {
+    for (const { name, version, match } of matches) {
+      for (const args of cosignCommands(cfg, { name, version }, match)) {
+        await runDockerCmd(cfg, cfg.getCosignImage(), args, cwd, logger, {
+          ...opts,
+          env,
+        });
       }
+      logger.log(`publish: signed ${digestReference(match)} with cosign`);
+    }
+  } finally {
+    if (staged) {
+      removeRegistryAuth(staged);
     }
+  }
+}
+
+/**
+ * Publish the packaged charts to one OCI target: skip versions already
+ * published when immutable, push the rest, tag them with the release
+ * channel and sign them with cosign when configured.
+ *
+ * @param cfg Target configuration from `getOciTargets`.
+ * @param packages Packaged charts to publish.
+ * @param channel Release channel, or `undefined` for the default.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns One artifact per chart in this target.
+ */
+async function publishOciTarget(
+  cfg: HelmConfig,
+  packages: Array<{ abs: string; chart: HelmChart }>,
+  channel: string | undefined,
+  cwd: string,
+  logger: Context['logger'],
+): Promise<HelmReleaseArtifact[]> {
+  const artifacts: HelmReleaseArtifact[] = [];
+  const helmImage = cfg.getHelmImage();
+  const hostPort = cfg.getOciHostPort();
+  const haveUser = cfg.hasOciUser();
+  const havePass = cfg.hasOciPass();
+  const auth = await ociAuthFor(cfg, cwd, logger);
+
+  logger.log(
+    `publish: OCI mode -> repo="${cfg.getOciRepo()}", ` +
+      `insecure=${cfg.getOciInsecure()}, ` +
+      `usernamePresent=${haveUser}, passwordPresent=${havePass}, ` +
+      `auth=${auth.kind}`,
+  );
+
+  const ociPublished = cfg.isImmutable()
+    ? await publishedOciCharts(cfg, auth, packages, cwd, logger)
+    : new Map<string, PushedChart>();
+  const toPush = packages.filter(({ abs }) => !ociPublished.has(abs));
 
-    runHostCmd(
-      `git -C "${tmpWorktree}" push ${ghRepo} ${ghBranch}`,
+  const setup: string[] = [];
+  // the native helm would overwrite the runner's own registry config
+  if (
+    cfg.getOciInsecure() &&
+    hostPort &&
+    auth.kind !== 'config' &&
+    resolveRuntime(cfg) === 'docker'
+  ) {
+    setup.push(HELM_INSECURE_REGISTRY_SCRIPT);
+  }
+  const flags = cfg.getOciInsecure() ? ['--plain-http'] : [];
+
+  const pushed: PushedChart[] = [];
+  for (const { abs } of toPush) {
+    const pushOutput = await runOciScript(
+      cfg,
+      helmImage,
+      'helm',
+      auth,
+      'exec helm push "$@" 2>&1',
+      [path.relative(cwd, abs), cfg.getOciRepo() ?? '', ...flags],
       cwd,
       logger,
+      setup,
     );
+    pushed.push(...parseHelmPushOutput(pushOutput));
+  }
+  for (const p of pushed) {
+    logger.log(`publish: pushed ${p.ref} (${p.digest})`);
+  }
+
+  const known = [...pushed, ...ociPublished.values()];
+  for (const { chart } of packages) {
+    const version = chart.version() ?? '';
+    const match = findPushed(known, chart.name(), version);
+    artifacts.push({
+      name: chart.name(),
+      version,
+      target: 'oci',
+      url: match
+        ? `oci://${digestReference(match)}`
+        : `oci://${chartReference(cfg.getOciRepoPath(), chart.name(), version)}`,
+      ...(match ? { digest: match.digest } : {}),
+    });
+  }
+  logger.log(
+    JSON.stringify({
+      helm: {
+        pushed: toPush.length,
+        skipped: ociPublished.size,
+        repo: cfg.getOciRepo(),
+      },
+    }),
+  );
 
+  const channelRefs = packages.map(({ chart }) => ({
+    name: chart.name(),
+    version: chart.version() ?? '',
+  }));
+  await tagOciChannel(cfg, auth, channelRefs, channelTag(channel), cwd, logger);
+
+  if (cfg.isCosignEnabled()) {
+    await signPushedCharts(cfg, auth, toPush, pushed, cwd, logger);
+  }
+  return artifacts;
+}
+
+/**
+ * semantic-release `publish` step. Publishes every packaged chart to:
+ * - an OCI registry (optional), and/or
+ * - a GitHub Pages branch (default).
+ *
+ * OCI publish:
+ * - optionally writes an insecure registry config for Helm if requested,
+ * - performs a `helm registry login` when credentials are supplied; the
+ *   username and password reach the container as environment variables,
+ *   and the password is read from stdin,
+ * - pushes each packaged `*.tgz` with its own `helm push` to the
+ *   configured `ociRepo`, or to
+ *   every enabled `ociRepos` target in turn; `helm push` uploads a
+ *   `.tgz.prov` provenance file next to it as well,
+ * - tags the pushed artifacts with `nextRelease.channel`, or `latest` on
+ *   the default channel, as `addChannel` does,
+ * - signs each pushed digest with cosign and attaches attestations when
+ *   `cosign` is configured.
+ *
+ * GitHub Pages publish:
+ * - routes prerelease versions to the configured prerelease branch and
+ *   index file, and everything else to the stable branch,
+ * - with the `pages` URL strategy, copies `*.tgz` and their `.prov`
+ *   files into the configured `ghPages.path` subdirectory next to its
+ *   index,
+ * - merges each index in pure YAML to preserve history across charts,
+ *   annotating entries released on a non-default channel,
+ * - commits all charts in one commit per branch and pushes it (see
+ *   `updateGhPagesBranch`).
+ *
+ * With `immutable` (the default), versions already present in an OCI
+ * repository or a gh-pages index are compared by digest first: identical
+ * charts are skipped, different ones fail the release before that
+ * repository or index is written to.
+ *
+ * A failing OCI target does not stop the other targets or gh-pages.
+ * Each target's result is logged, and the failures are thrown once
+ * everything else is published.
+ *
+ * Returns a semantic-release release object naming the published charts,
+ * with one artifact per OCI push (including its digest) and per gh-pages
+ * index entry, or `false` when independent mode had nothing to publish.
+ *
+ * @param pluginConfig Plugin configuration supplied by semantic-release.
+ * @param context semantic-release context (cwd, logger, nextRelease).
+ * @returns Release information for other plugins, or `false`.
+ * @throws SemanticReleaseError if no packaged charts are present outside
+ *   independent versioning mode, or `EVERSIONEXISTS` if a chart version
+ *   was already published with different content; an `AggregateError`
+ *   when several OCI targets failed.
+ */
+export async function publish(
+  pluginConfig: HelmPluginConfig,
+  context: Context,
+): Promise<HelmRelease | false> {
+  const { cwd, nextRelease, options, logger } = context;
+  const cfg = new HelmConfig(pluginConfig);
+  registerSecrets(...cfg.getSecrets());
+
+  logger.log('publish: starting');
+
+  const pkgDir = `${cwd}/dist/charts`;
+  const entries = fs.existsSync(pkgDir)
+    ? fs.readdirSync(pkgDir, { withFileTypes: true })
+    : [];
+  const files = entries
+    .filter((d) => d.isFile() && d.name.endsWith('.tgz'))
+    .map((d) => `dist/charts/${d.name}`);
+
+  if (files.length === 0 && cfg.isIndependentVersioning()) {
+    logger.log('publish: no chart changed in this release; nothing to do');
+    return false;
+  }
+  if (files.length === 0) {
+    throw new SemanticReleaseError(
+      'No packaged chart found.',
+      'ENOPACKAGEDCHART',
+      'Prepare step must package chart before publish.',
+    );
+  }
+  logger.log(`publish: found ${files.length} packaged chart(s)`);
+
+  const channel: string | undefined = nextRelease?.channel ?? undefined;
+  const artifacts: HelmReleaseArtifact[] = [];
+  const packages = files.map((tgz) => {
+    const abs = path.join(cwd, tgz);
     try {
-      runHostCmd(`git worktree remove "${tmpWorktree}" --force`, cwd, logger);
-    } catch {
-      logger.log('gh-pages worktree cleanup: already removed');
+      return { abs, chart: HelmChart.fromPackage(abs) };
+    } catch (err: unknown) {
+      throw new SemanticReleaseError(
+        'Invalid packaged chart.',
+        'EINVALIDPACKAGE',
+        `Cannot read Chart.yaml from ${tgz}: ` +
+          (err instanceof Error ? err.message : String(err)),
+      );
     }
+  });
 
+  const ghPublished =
+    cfg.isGhEnabled() && cfg.isImmutable()
+      ? await publishedGhCharts(cfg, packages, cwd, logger)
+      : new Set<string>();
+
+  let ociResults: OciTargetResult<HelmReleaseArtifact[]>[] = [];
+  if (cfg.isOciEnabled()) {
+    ociResults = await forEachOciTarget(
+      cfg.getOciTargets(),
+      (target) => publishOciTarget(target, packages, channel, cwd, logger),
+      logger,
+    );
+    for (const { value } of ociResults) {
+      artifacts.push(...(value ?? []));
+    }
     logger.log(
-      '{ "helm": { "published": "gh-pages", "path": "dist/charts", ' +
-        '"merged": true } }',
+      JSON.stringify({
+        helm: {
+          targets: ociResults.map(({ repo, error }) => ({
+            repo,
+            published: !error,
+            ...(error ? { error: error.message } : {}),
+          })),
+        },
+      }),
+    );
+  }
+
+  if (cfg.isGhEnabled()) {
+    const strategy = cfg.getGhUrlStrategy();
+    const baseUrl = strategy === 'pages' ? (cfg.getGhUrl() ?? '') : '';
+    const tagFormat: string = options?.tagFormat ?? 'v${version}';
+    const tagOf = (version: string): string =>
+      nextRelease?.gitTag ?? renderTemplate(tagFormat, { version });
+    const repoPath =
+      strategy === 'github-release' ? await githubRepoPath(cfg, cwd) : '';
+
+    const targets = groupByGhTarget(
+      cfg,
+      packages,
+      ({ chart }) => chart.version() ?? '',
     );
+    for (const [branch, indexFiles] of targets) {
+      await updateGhPagesBranch(
+        cfg,
+        branch,
+        (worktree) => {
+          const repoDir = path.join(worktree, cfg.getGhPath());
+          fs.mkdirSync(repoDir, { recursive: true });
+          for (const [indexFile, items] of indexFiles) {
+            const indexPath = path.join(repoDir, indexFile);
+            const indexDir = path.dirname(indexPath);
+            fs.mkdirSync(indexDir, { recursive: true });
+            const indexDirUrl = path.posix.dirname(indexFile);
+            const indexUrl =
+              baseUrl && indexDirUrl !== '.'
+                ? `${baseUrl.replace(/\/+$/, '')}/${indexDirUrl}`
+                : baseUrl;
+            let indexDoc = HelmIndex.fromFile(indexPath);
+
+            for (const { abs, chart } of items) {
+              const filename = path.basename(abs);
+              const version = chart.version() ?? '';
+              const skip = ghPublished.has(abs);
+              if (strategy === 'pages' && !skip) {
+                fs.copyFileSync(abs, path.join(indexDir, filename));
+                if (fs.existsSync(`${abs}.prov`)) {
+                  fs.copyFileSync(
+                    `${abs}.prov`,
+                    path.join(indexDir, `${filename}.prov`),
+                  );
+                }
+              }
+              const downloadUrl = packageDownloadUrl(
+                strategy,
+                { name: chart.name(), version, tag: tagOf(version), filename },
+                () => repoPath,
+              );
+
+              if (!skip) {
+                indexDoc = indexDoc.append(
+                  chart,
+                  abs,
+                  indexUrl,
+                  downloadUrl ? { urls: [downloadUrl] } : undefined,
+                );
+              }
+              indexDoc = indexDoc.withChannel(chart.name(), version, channel);
+
+              const entryUrl =
+                downloadUrl ??
+                (indexUrl
+                  ? `${indexUrl.replace(/\/+$/, '')}/${filename}`
+                  : undefined);
+              artifacts.push({
+                name: chart.name(),
+                version,
+                target: 'gh-pages',
+                ...(entryUrl ? { url: entryUrl } : {}),
+              });
+            }
+
+            indexDoc.writeTo(indexPath);
+            logger.log(`gh-pages: updated ${indexFile} on ${branch}`);
+          }
+        },
+        'docs(charts): update Helm repo (merge index) [skip ci]',
+        cwd,
+        logger,
+      );
+    }
+
+    logger.log(
+      JSON.stringify({
+        helm: {
+          published: 'gh-pages',
+          path: cfg.getGhPath() || '.',
+          merged: true,
+        },
+      }),
+    );
+  }
+
+  throwTargetFailures(ociResults);
+  const release = buildRelease(artifacts, channel);
+  logger.log(`publish: done (${release.name})`);
+  return release;
+}
+
+/**
+ * semantic-release `addChannel` step. Runs when an existing release is
+ * promoted to another channel, for example when `next` is merged into
+ * the default branch. Nothing is packaged; instead the already
+ * published charts are re-labelled:
+ * - OCI artifacts are tagged with the channel name, or `latest` for the
+ *   default channel, in every OCI target,
+ * - gh-pages index entries get their channel annotation updated, and
+ *   lose it when promoted to the default channel.
+ *
+ * Chart versions are `nextRelease.version` in lockstep mode and the
+ * current Chart.yaml versions in independent mode.
+ *
+ * @param pluginConfig Plugin configuration supplied by semantic-release.
+ * @param context semantic-release context (cwd, logger, nextRelease).
+ * @throws SemanticReleaseError if the release version is missing, or
+ *   the failures of OCI targets that could not be tagged.
+ */
+export async function addChannel(
+  pluginConfig: HelmPluginConfig,
+  context: Context,
+): Promise<void> {
+  const { cwd, nextRelease, logger } = context;
+  const cfg = new HelmConfig(pluginConfig);
+  registerSecrets(...cfg.getSecrets());
+
+  logger.log('addChannel: starting');
+
+  const version = nextRelease?.version;
+  if (!version) {
+    throw new SemanticReleaseError(
+      'Missing release version.',
+      'ENOVERSION',
+      'semantic-release did not provide a nextRelease.version.',
+    );
+  }
+  const channel: string | undefined = nextRelease?.channel ?? undefined;
+
+  const refs = cfg.getChartPaths(cwd).map((chartPath) => {
+    const chart = HelmChart.from(path.join(cwd, chartPath));
+    return {
+      name: chart.name(),
+      version: cfg.isIndependentVersioning()
+        ? (chart.version() ?? version)
+        : version,
+    };
+  });
+  logger.log(
+    `addChannel: promoting ${refs.length} chart(s) to ` +
+      `${channel ?? 'the default channel'}`,
+  );
+
+  const ociResults = await forEachOciTarget(
+    cfg.getOciTargets(),
+    async (target) =>
+      tagOciChannel(
+        target,
+        await ociAuthFor(target, cwd, logger),
+        refs,
+        channelTag(channel),
+        cwd,
+        logger,
+      ),
+    logger,
+  );
+
+  if (cfg.isGhEnabled()) {
+    const targets = groupByGhTarget(cfg, refs, (ref) => ref.version);
+    for (const [branch, indexFiles] of targets) {
+      await updateGhPagesBranch(
+        cfg,
+        branch,
+        (worktree) => {
+          for (const [indexFile, items] of indexFiles) {
+            const indexPath = path.join(worktree, cfg.getGhPath(), indexFile);
+            let indexDoc = HelmIndex.fromFile(indexPath);
+            for (const ref of items) {
+              if (!indexDoc.has(ref.name, ref.version)) {
+                logger.log(
+                  `gh-pages: ${ref.name} ${ref.version} not in ${indexFile}; ` +
+                    'skipping',
+                );
+                continue;
+              }
+              indexDoc = indexDoc.withChannel(ref.name, ref.version, channel);
+            }
+            indexDoc.writeTo(indexPath);
+          }
+        },
+        `docs(charts): add ${version} to ${channel ?? 'default'} channel [skip ci]`,
+        cwd,
+        logger,
+      );
+    }
   }
 
-  logger.log('publish: done');
+  throwTargetFailures(ociResults);
+  logger.log('addChannel: done');
 }
 
 // noinspection JSUnusedGlobalSymbols
-export default { verifyConditions, prepare, publish };
+export default {
+  verifyConditions,
+  analyzeCommits,
+  prepare,
+  publish,
+  addChannel,
+};
@@ -0,0 +1,90 @@
+// @ts-expect-error semantic-release types are not bundled
+import { Context } from 'semantic-release';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { HelmConfig } from './plugin-config.js';
+
+/**
+ * Outcome of a step on one OCI target: the step's value, or the error
+ * it failed with.
+ */
+export interface OciTargetResult<T> {
+  repo: string;
+  value?: T;
+  error?: Error;
+}
+
+/**
+ * Turn a failure on a target into an error naming the target. Plugin
+ * errors keep their code so callers can still tell failures apart;
+ * anything else, such as a failed container run, becomes `EOCITARGET`.
+ *
+ * @param repo Repository of the target.
+ * @param err Error thrown by the step.
+ * @returns The error to report.
+ */
+export function targetError(repo: string, err: unknown): Error {
+  if (
+    err instanceof Error &&
+    typeof (err as { code?: unknown }).code === 'string'
+  ) {
+    return err;
+  }
+  return new SemanticReleaseError(
+    'OCI target failed.',
+    'EOCITARGET',
+    `${repo}: ${err instanceof Error ? err.message : String(err)}`,
+  );
+}
+
+/**
+ * Run a step on every OCI target in order. A failing target does not
+ * stop the others, so one broken mirror cannot hide the state of the
+ * rest; failures are returned with the results.
+ *
+ * @param targets Target configurations from `getOciTargets`.
+ * @param step Step to run per target.
+ * @param logger semantic-release logger used for structured logs.
+ * @returns One result per target, in order.
+ */
+export async function forEachOciTarget<T>(
+  targets: HelmConfig[],
+  step: (target: HelmConfig) => Promise<T>,
+  logger: Context['logger'],
+): Promise<OciTargetResult<T>[]> {
+  const results: OciTargetResult<T>[] = [];
+  for (const target of targets) {
+    const repo = target.getOciRepo() ?? '';
+    try {
+      results.push({ repo, value: await step(target) });
+    } catch (err: unknown) {
+      const error = targetError(repo, err);
+      logger.error(`OCI target ${repo} failed: ${error.message}`);
+      results.push({ repo, error });
+    }
+  }
+  return results;
+}
+
+/**
+ * Throw the failures of a `forEachOciTarget` run, if any. A single
+ * failure is thrown as is; several are thrown together as an
+ * `AggregateError`, which semantic-release reports one by one.
+ *
+ * @param results Results from `forEachOciTarget`.
+ * @throws The failure, or an `AggregateError` of all failures.
+ */
+export function throwTargetFailures(results: OciTargetResult<unknown>[]): void {
+  const errors = results
+    .map((r) => r.error)
+    .filter((e): e is Error => e !== undefined);
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  if (errors.length > 1) {
+    throw new AggregateError(
+      errors,
+      `${errors.length} of ${results.length} OCI targets failed.`,
+    );
+  }
+}
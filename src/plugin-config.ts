@@ -1,13 +1,171 @@
 // noinspection JSUnusedGlobalSymbols
 // @ts-expect-error semantic-release types are not bundled
 import { PluginConfig } from 'semantic-release';
+import * as os from 'os';
+import * as path from 'path';
+import { findCharts } from './chart-discovery.js';
+import type { CommitMatch } from './chart-commits.js';
+import type { ContainerEngine } from './docker/client.js';
+
+/**
+ * File-based source for the chart `appVersion`. JSON files such as
+ * `package.json` are read at `key` (a dotted path, default `version`);
+ * any other file, such as `VERSION`, contributes its first line.
+ */
+export interface AppVersionFile {
+  file: string;
+  key?: string;
+}
+
+/**
+ * A value in a chart file that is rewritten from the release during
+ * prepare. `path` is a dotted YAML path such as `image.tag`; `value` is
+ * a template with `${version}` and `${appVersion}` (default
+ * `"${version}"`); `file` is relative to the chart directory (default
+ * `values.yaml`).
+ */
+export interface ValuesUpdate {
+  path: string;
+  value?: string;
+  file?: string;
+}
+
+/**
+ * GPG signing options for `helm package --sign`. The keyring is read
+ * from `keyring` (a file path) or `keyringBase64` (falling back to the
+ * `HELM_SIGN_KEYRING_BASE64` environment variable); the passphrase
+ * falls back to `HELM_SIGN_PASSPHRASE`.
+ */
+export interface SignConfig {
+  key: string;
+  keyring?: string;
+  keyringBase64?: string;
+  passphrase?: string;
+}
+
+/**
+ * An in-toto attestation attached to pushed charts with `cosign
+ * attest`. `predicate` is a file path relative to the repository root
+ * and may use `${name}` and `${version}`; `type` is a cosign predicate
+ * type such as `spdxjson`, `cyclonedx` or `slsaprovenance`.
+ */
+export interface CosignAttestation {
+  predicate: string;
+  type: string;
+}
+
+/**
+ * Cosign signing of charts pushed to OCI. The private key is read by
+ * cosign from the environment variable named by `keyEnv` (default
+ * `COSIGN_PRIVATE_KEY`), and its password from `COSIGN_PASSWORD`.
+ */
+export interface CosignConfig {
+  image?: string;
+  keyEnv?: string;
+  attestations?: CosignAttestation[];
+}
+
+/**
+ * Cloud registries that issue short-lived push tokens.
+ */
+export type OciAuthType = 'ecr' | 'gcp' | 'acr';
+
+/**
+ * Token exchange with a cloud registry. The token is obtained from the
+ * provider's CLI in a container (`image`), using the standard
+ * credentials of the runner. `region` applies to ECR and defaults to
+ * the region in the registry host name.
+ */
+export interface OciAuthConfig {
+  type: OciAuthType;
+  region?: string;
+  image?: string;
+}
+
+/**
+ * One OCI registry in `ociRepos`. Credentials, transport and
+ * authentication apply to this registry only and are not inherited
+ * from the top-level `oci*` options. `enabled` turns the target off
+ * with `false`, or names an environment variable that must be set to
+ * a value other than `false` or `0`.
+ */
+export interface OciTarget {
+  repo: string;
+  username?: string;
+  password?: string;
+  insecure?: boolean;
+  registryConfig?: string;
+  auth?: OciAuthConfig;
+  enabled?: boolean | string;
+}
+
+/**
+ * Where tools run: in containers (`docker`), as binaries installed on
+ * the host (`native`), or in containers when Docker is available and
+ * natively otherwise (`auto`).
+ */
+export type RuntimeMode = 'native' | 'docker' | 'auto';
 
 export interface HelmPluginConfig extends PluginConfig {
   /**
    * Path to the chart directory that contains `Chart.yaml`.
-   * Example: `"charts/app"`.
+   * Example: `"charts/app"`. Either this or `charts` is required.
+   */
+  chartPath?: string;
+
+  /**
+   * Chart directories or glob patterns used to release several charts
+   * in a single run. Each entry may name a chart directory, a glob of
+   * directories, or a glob of `Chart.yaml` files. Example:
+   * `["charts/*"]`. When set, `chartPath` is ignored.
+   */
+  charts?: string | string[];
+
+  /**
+   * How chart versions are derived. `"lockstep"` (default) stamps
+   * `nextRelease.version` into every chart. `"independent"` gives each
+   * chart its own version line: only charts with matching commits are
+   * bumped from their current Chart.yaml version, packaged and
+   * published, while unchanged charts are left alone.
+   */
+  versioning?: 'lockstep' | 'independent';
+
+  /**
+   * How commits are attributed to charts in independent mode: by files
+   * changed under the chart directory (`"path"`), by conventional
+   * commit scope matching the chart name or directory (`"scope"`), or
+   * by either (`"any"`, default).
+   */
+  commitMatch?: CommitMatch;
+
+  /**
+   * Source for the `appVersion` written into Chart.yaml next to
+   * `version` during prepare. `true` copies the release version, a
+   * string is a template such as `"v${version}"`, and an object reads
+   * the value from a file, e.g. `{ file: "package.json" }`. When
+   * omitted, `appVersion` is left unchanged.
+   */
+  appVersion?: boolean | string | AppVersionFile;
+
+  /**
+   * Compare each chart's `values.yaml` with the last release tag during
+   * `prepare` and fail when keys were removed, retyped or renamed in a
+   * non-major release. Default: `true`.
+   */
+  valuesCheck?: boolean;
+
+  /**
+   * YAML paths rewritten from the release version during `prepare`,
+   * e.g. `["image.tag"]` or `[{ path: "image.tag", value: "v${version}" }]`.
+   * Edits keep comments and formatting like the Chart.yaml bump.
+   */
+  valuesUpdates?: Array<string | ValuesUpdate>;
+
+  /**
+   * Sign packaged charts with GPG so that `helm install --verify` can
+   * check them. Produces a `.prov` file next to each archive.
    */
-  chartPath: string;
+  sign?: SignConfig;
 
   /**
    * Values passed to `helm template` during the prepare step.
@@ -23,6 +181,19 @@ export interface HelmPluginConfig extends PluginConfig {
    */
   ociRepo?: string;
 
+  /**
+   * Several OCI repositories to push every chart to, e.g. a public
+   * registry and an internal mirror. Replaces `ociRepo` and its
+   * credential options; each target carries its own.
+   */
+  ociRepos?: OciTarget[];
+
+  /**
+   * Sign each chart pushed to `ociRepo` by digest with cosign, and
+   * optionally attach attestations such as an SBOM.
+   */
+  cosign?: CosignConfig;
+
   /**
    * Enables plain HTTP behavior for the OCI registry. When true,
    * Helm will use insecure transport semantics compatible with
@@ -42,6 +213,51 @@ export interface HelmPluginConfig extends PluginConfig {
    */
   ociPassword?: string;
 
+  /**
+   * Existing Docker `config.json` or Helm registry config to
+   * authenticate with instead of `ociUsername`/`ociPassword`. Stored
+   * credentials are mounted read-only; credential helpers run on the
+   * host. A leading `~/` refers to the home directory.
+   */
+  ociRegistryConfig?: string;
+
+  /**
+   * Refuse to overwrite chart versions that are already published with
+   * different content. Identical versions are skipped. Default `true`.
+   */
+  immutable?: boolean;
+
+  /**
+   * Obtain OCI credentials by token exchange with AWS ECR, GCP Artifact
+   * Registry or Azure ACR instead of `ociUsername`/`ociPassword`.
+   */
+  ociAuth?: OciAuthConfig;
+
+  /**
+   * Where Helm, helm-docs, oras and cosign run. Default `"docker"`.
+   */
+  runtime?: RuntimeMode;
+
+  /**
+   * Container engine used by the `docker` runtime: `"docker"`,
+   * `"podman"` or `"nerdctl"`. When omitted, the first engine that
+   * answers is used, in that order.
+   */
+  containerEngine?: ContainerEngine;
+
+  /**
+   * Run containers as the host user (`--user uid:gid`) so files they
+   * write into the workspace are not owned by root. Set to `false` to
+   * keep each image's user. Default `true`.
+   */
+  runAsHostUser?: boolean;
+
+  /**
+   * Seconds each container run or host tool may take before it is
+   * stopped. No limit when omitted.
+   */
+  commandTimeout?: number;
+
   /**
    * Extra args for `helm-docs`. Default is `["--template-files=README.md"]`.
    */
@@ -58,6 +274,12 @@ export interface HelmPluginConfig extends PluginConfig {
    */
   docsImage?: string;
 
+  /**
+   * Docker image used to tag OCI artifacts with their release channel.
+   * Default is `"ghcr.io/oras-project/oras:v1.2.0"`.
+   */
+  orasImage?: string;
+
   /**
    * GitHub Pages configuration block. Enabled by default unless
    * explicitly disabled by setting `enabled: false`.
@@ -75,6 +297,23 @@ export interface HelmPluginConfig extends PluginConfig {
      */
     url?: string;
 
+    /**
+     * Subdirectory of the branch that holds `index.yaml` and, with the
+     * `pages` URL strategy, the chart archives. `url` is the public
+     * URL of this directory. Example: `"charts"`. Default: the branch
+     * root.
+     */
+    path?: string;
+
+    /**
+     * Where index entries point for downloads. `"pages"` copies each
+     * archive into the branch and links it below `url`;
+     * `"github-release"` (default) links the release asset; any other
+     * value is a URL template with `${name}`, `${version}`, `${tag}`
+     * and `${filename}`.
+     */
+    urlStrategy?: 'pages' | 'github-release' | string;
+
     /**
      * Git remote name used for pushing. Default: `"origin"`.
      */
@@ -84,6 +323,20 @@ export interface HelmPluginConfig extends PluginConfig {
      * Branch name used for gh-pages content. Default: `"gh-pages"`.
      */
     branch?: string;
+
+    /**
+     * Branch that receives prerelease versions such as `2.0.0-beta.1`,
+     * keeping them out of the stable repository. Default: `branch`.
+     */
+    prereleaseBranch?: string;
+
+    /**
+     * Directory below `ghPages.path` holding a separate Helm repository
+     * for prerelease versions: its `index.yaml` and, with the `pages`
+     * URL strategy, the archives. Example: `"prerelease"`. Default:
+     * prereleases share the stable `index.yaml`.
+     */
+    prereleaseIndex?: string;
   };
 }
 
@@ -108,6 +361,22 @@ function parseOciAsHttp(repo?: string): URL | undefined {
   }
 }
 
+/**
+ * Evaluate the `enabled` condition of an `ociRepos` target.
+ *
+ * @param target Target to check.
+ * @returns True unless disabled or its environment variable is unset,
+ *          `false` or `0`.
+ */
+function isOciTargetEnabled(target: OciTarget): boolean {
+  const { enabled } = target;
+  if (typeof enabled === 'string') {
+    const value = process.env[enabled] ?? '';
+    return value.length > 0 && value !== 'false' && value !== '0';
+  }
+  return enabled !== false;
+}
+
 /**
  * HelmConfig wraps the raw plugin config and exposes derived values
  * and safe defaults. It centralizes option reading so the plugin code
@@ -120,6 +389,108 @@ export class HelmConfig {
     this.cfg = cfg;
   }
 
+  /**
+   * Whether each chart is versioned independently from the release.
+   *
+   * @returns True when `versioning` is `"independent"`.
+   */
+  isIndependentVersioning(): boolean {
+    return this.cfg.versioning === 'independent';
+  }
+
+  /**
+   * Commit attribution strategy for independent versioning.
+   *
+   * @returns `"path"`, `"scope"` or `"any"`.
+   */
+  getCommitMatch(): CommitMatch {
+    return this.cfg.commitMatch ?? 'any';
+  }
+
+  /**
+   * Configured `appVersion` source, with `false` normalized to
+   * `undefined` so callers only deal with active sources.
+   *
+   * @returns `true`, a template string, a file source, or `undefined`.
+   */
+  getAppVersionSource(): true | string | AppVersionFile | undefined {
+    const source = this.cfg.appVersion;
+    return source === false || source === undefined ? undefined : source;
+  }
+
+  /**
+   * Whether breaking values.yaml changes are checked during prepare.
+   *
+   * @returns True unless `valuesCheck` is explicitly false.
+   */
+  isValuesCheckEnabled(): boolean {
+    return this.cfg.valuesCheck !== false;
+  }
+
+  /**
+   * Values rewritten during prepare, with string shorthands expanded
+   * and defaults applied.
+   *
+   * @returns Normalized updates, possibly empty.
+   */
+  getValuesUpdates(): Required<ValuesUpdate>[] {
+    return (this.cfg.valuesUpdates ?? []).map((u) => {
+      const update = typeof u === 'string' ? { path: u } : u;
+      return {
+        path: update.path,
+        value: update.value ?? '${version}',
+        file: update.file ?? 'values.yaml',
+      };
+    });
+  }
+
+  /**
+   * Whether charts are signed during prepare.
+   *
+   * @returns True when a `sign` block is configured.
+   */
+  isSignEnabled(): boolean {
+    return this.cfg.sign !== undefined;
+  }
+
+  /**
+   * Name of the GPG key used to sign charts.
+   *
+   * @returns Key name, email or fingerprint, or `undefined`.
+   */
+  getSignKey(): string | undefined {
+    return this.cfg.sign?.key;
+  }
+
+  /**
+   * Path of the secret keyring file, relative to the repository root.
+   *
+   * @returns Keyring path or `undefined`.
+   */
+  getSignKeyring(): string | undefined {
+    return this.cfg.sign?.keyring;
+  }
+
+  /**
+   * Base64-encoded secret keyring, falling back to
+   * `HELM_SIGN_KEYRING_BASE64`.
+   *
+   * @returns Encoded keyring or `undefined`.
+   */
+  getSignKeyringBase64(): string | undefined {
+    return this.cfg.sign?.keyringBase64 ?? process.env.HELM_SIGN_KEYRING_BASE64;
+  }
+
+  /**
+   * Passphrase of the signing key, falling back to
+   * `HELM_SIGN_PASSPHRASE`.
+   *
+   * @returns Passphrase or `undefined`.
+   */
+  getSignPassphrase(): string | undefined {
+    return this.cfg.sign?.passphrase ?? process.env.HELM_SIGN_PASSPHRASE;
+  }
+
   /**
    * Values for `helm template` during the prepare step.
    *
@@ -132,12 +503,90 @@ export class HelmConfig {
   /**
    * The chart directory that contains `Chart.yaml`.
    *
-   * @returns Chart directory path.
+   * @returns Chart directory path or `undefined`.
    */
-  getChartPath(): string {
+  getChartPath(): string | undefined {
     return this.cfg.chartPath;
   }
 
+  /**
+   * Whether multi-chart mode is enabled through `charts`.
+   *
+   * @returns True when `charts` holds at least one pattern.
+   */
+  isMultiChart(): boolean {
+    return this.getChartPatterns().length > 0;
+  }
+
+  /**
+   * Raw chart patterns from `charts`, normalized to an array.
+   *
+   * @returns Array of directories or glob patterns.
+   */
+  getChartPatterns(): string[] {
+    const charts = this.cfg.charts;
+    if (typeof charts === 'string') {
+      return charts.length > 0 ? [charts] : [];
+    }
+    return (charts ?? []).filter((c) => c.length > 0);
+  }
+
+  /**
+   * All chart directories to release, relative to `cwd`. In
+   * multi-chart mode the `charts` patterns are expanded against the
+   * file system; otherwise the single `chartPath` is returned as-is.
+   *
+   * @param cwd Repository root used to expand glob patterns.
+   * @returns Chart directory paths, possibly empty.
+   */
+  getChartPaths(cwd: string): string[] {
+    if (this.isMultiChart()) {
+      return findCharts(cwd, this.getChartPatterns());
+    }
+    const chartPath = this.getChartPath();
+    return chartPath ? [chartPath] : [];
+  }
+
+  /**
+   * Configured runtime for the tools.
+   *
+   * @returns `"docker"` unless `runtime` is set.
+   */
+  getRuntime(): RuntimeMode {
+    return this.cfg.runtime ?? 'docker';
+  }
+
+  /**
+   * Configured container engine.
+   *
+   * @returns Engine name, or `undefined` to detect one.
+   */
+  getContainerEngine(): ContainerEngine | undefined {
+    return this.cfg.containerEngine;
+  }
+
+  /**
+   * Whether containers run as the host user.
+   *
+   * @returns True unless `runAsHostUser` is set to false.
+   */
+  isRunAsHostUser(): boolean {
+    return this.cfg.runAsHostUser !== false;
+  }
+
+  /**
+   * Time limit for each container run or host tool.
+   *
+   * @returns Milliseconds, or `undefined` when `commandTimeout` is not
+   *          a positive number.
+   */
+  getCommandTimeout(): number | undefined {
+    const seconds = this.cfg.commandTimeout;
+    return typeof seconds === 'number' && seconds > 0
+      ? seconds * 1000
+      : undefined;
+  }
+
   /**
    * Docker image used for Helm CLI operations.
    *
@@ -156,6 +605,15 @@ export class HelmConfig {
     return this.cfg.docsImage ?? 'jnorwood/helm-docs:v1.14.2';
   }
 
+  /**
+   * Docker image used for `oras` channel tagging.
+   *
+   * @returns Image reference with tag.
+   */
+  getOrasImage(): string {
+    return this.cfg.orasImage ?? 'ghcr.io/oras-project/oras:v1.2.0';
+  }
+
   /**
    * Additional arguments for `helm-docs`.
    *
@@ -183,6 +641,27 @@ export class HelmConfig {
     return this.cfg.ghPages?.url;
   }
 
+  /**
+   * Branch subdirectory holding the chart repository, without leading
+   * or trailing slashes.
+   *
+   * @returns Relative directory, or an empty string for the root.
+   */
+  getGhPath(): string {
+    return (this.cfg.ghPages?.path ?? '')
+      .replace(/^\.?\/+/, '')
+      .replace(/\/+$/, '');
+  }
+
+  /**
+   * Download URL strategy for index entries.
+   *
+   * @returns `"pages"`, `"github-release"` or a URL template.
+   */
+  getGhUrlStrategy(): string {
+    return this.cfg.ghPages?.urlStrategy ?? 'github-release';
+  }
+
   /**
    * Git remote used for gh-pages push.
    *
@@ -201,13 +680,84 @@ export class HelmConfig {
     return this.cfg.ghPages?.branch ?? 'gh-pages';
   }
 
+  /**
+   * Branch that receives a release, routing prereleases to
+   * `prereleaseBranch` when configured.
+   *
+   * @param prerelease Whether the released version is a prerelease.
+   * @returns Branch name.
+   */
+  getGhBranchFor(prerelease: boolean): string {
+    return prerelease
+      ? (this.cfg.ghPages?.prereleaseBranch ?? this.getGhBranch())
+      : this.getGhBranch();
+  }
+
+  /**
+   * Index file that receives a release, routing prereleases to the
+   * `index.yaml` in `prereleaseIndex` when configured. Helm clients
+   * always fetch `index.yaml`, so each index is named that way and
+   * lives in its own directory, next to its archives.
+   *
+   * @param prerelease Whether the released version is a prerelease.
+   * @returns Index path relative to `ghPages.path`.
+   */
+  getGhIndexFileFor(prerelease: boolean): string {
+    const dir = prerelease
+      ? (this.cfg.ghPages?.prereleaseIndex ?? '')
+          .replace(/^(\.\/)+/, '')
+          .replace(/\/+$/, '')
+      : '';
+    return path.posix.join(dir, 'index.yaml');
+  }
+
   /**
    * Whether OCI publishing is enabled.
    *
-   * @returns True when `ociRepo` is present.
+   * @returns True when `ociRepo` or an enabled `ociRepos` target is
+   *          present.
    */
   isOciEnabled(): boolean {
-    return typeof this.cfg.ociRepo === 'string' && this.cfg.ociRepo.length > 0;
+    return this.getOciTargets().length > 0;
+  }
+
+  /**
+   * Raw `ociRepos` targets, including disabled ones.
+   *
+   * @returns Targets, or `undefined` when `ociRepos` is not set.
+   */
+  getOciRepos(): OciTarget[] | undefined {
+    return this.cfg.ociRepos;
+  }
+
+  /**
+   * Enabled OCI targets, each as a configuration whose `oci*` getters
+   * describe that target. Without `ociRepos`, the only target is this
+   * configuration when `ociRepo` is set.
+   *
+   * @returns Target configurations, possibly empty.
+   */
+  getOciTargets(): HelmConfig[] {
+    const targets = this.cfg.ociRepos;
+    if (targets === undefined) {
+      const repo = this.cfg.ociRepo;
+      return typeof repo === 'string' && repo.length > 0 ? [this] : [];
+    }
+    return targets.filter(isOciTargetEnabled).map(
+      (t) =>
+        new HelmConfig({
+          ...this.cfg,
+          ociRepos: undefined,
+          ociRepo: t.repo,
+          ociInsecure: t.insecure,
+          // empty strings keep OCI_USERNAME/OCI_PASSWORD from leaking
+          // into targets without their own credentials
+          ociUsername: t.username ?? '',
+          ociPassword: t.password ?? '',
+          ociRegistryConfig: t.registryConfig,
+          ociAuth: t.auth,
+        }),
+    );
   }
 
   /**
@@ -219,6 +769,18 @@ export class HelmConfig {
     return this.cfg.ociRepo;
   }
 
+  /**
+   * OCI repository reference without the `oci://` scheme, as `oras`
+   * expects it.
+   *
+   * @returns Repository reference, e.g. `ghcr.io/org/charts`.
+   */
+  getOciRepoPath(): string {
+    return (this.cfg.ociRepo ?? '')
+      .replace(/^oci:\/\//, '')
+      .replace(/\/+$/, '');
+  }
+
   /**
    * Whether plain HTTP / insecure mode is enabled for OCI.
    *
@@ -228,6 +790,42 @@ export class HelmConfig {
     return this.cfg.ociInsecure === true;
   }
 
+  /**
+   * Whether pushed charts are signed with cosign.
+   *
+   * @returns True when a `cosign` block is configured.
+   */
+  isCosignEnabled(): boolean {
+    return this.cfg.cosign !== undefined;
+  }
+
+  /**
+   * Docker image used for cosign.
+   *
+   * @returns Image reference with tag.
+   */
+  getCosignImage(): string {
+    return this.cfg.cosign?.image ?? 'gcr.io/projectsigstore/cosign:v2.4.1';
+  }
+
+  /**
+   * Environment variable holding the cosign private key.
+   *
+   * @returns Variable name.
+   */
+  getCosignKeyEnv(): string {
+    return this.cfg.cosign?.keyEnv ?? 'COSIGN_PRIVATE_KEY';
+  }
+
+  /**
+   * Attestations attached to pushed charts.
+   *
+   * @returns Attestations, possibly empty.
+   */
+  getCosignAttestations(): CosignAttestation[] {
+    return this.cfg.cosign?.attestations ?? [];
+  }
+
   /**
    * Resolved OCI username, falling back to `OCI_USERNAME`.
    *
@@ -246,6 +844,73 @@ export class HelmConfig {
     return this.cfg.ociPassword ?? process.env.OCI_PASSWORD;
   }
 
+  /**
+   * Whether published chart versions are immutable.
+   *
+   * @returns True unless `immutable` is set to false.
+   */
+  isImmutable(): boolean {
+    return this.cfg.immutable !== false;
+  }
+
+  /**
+   * Cloud token exchange configured with `ociAuth`.
+   *
+   * @returns Configuration or `undefined`.
+   */
+  getOciAuth(): OciAuthConfig | undefined {
+    return this.cfg.ociAuth;
+  }
+
+  /**
+   * Docker image with the cloud CLI used for `ociAuth`.
+   *
+   * @returns Image reference with tag.
+   */
+  getOciAuthImage(): string {
+    const defaults: Record<OciAuthType, string> = {
+      ecr: 'amazon/aws-cli:2.17.0',
+      gcp: 'gcr.io/google.com/cloudsdktool/google-cloud-cli:494.0.0-slim',
+      acr: 'mcr.microsoft.com/azure-cli:2.64.0',
+    };
+    const auth = this.cfg.ociAuth;
+    return auth?.image ?? defaults[auth?.type ?? 'ecr'];
+  }
+
+  /**
+   * Absolute path of the registry config to authenticate with.
+   *
+   * @param cwd Repository root used to resolve relative paths.
+   * @returns Path or `undefined` when not configured.
+   */
+  getOciRegistryConfig(cwd: string): string | undefined {
+    const file = this.cfg.ociRegistryConfig;
+    if (!file) return undefined;
+    return file.startsWith('~/')
+      ? path.join(os.homedir(), file.slice(2))
+      : path.resolve(cwd, file);
+  }
+
+  /**
+   * Every configured secret value: the OCI passwords, the signing
+   * passphrase and inline keyring, and the cosign key and password.
+   * Callers register these for redaction before running commands.
+   *
+   * @returns Secret values that are set.
+   */
+  getSecrets(): string[] {
+    const cosign = this.isCosignEnabled()
+      ? [process.env[this.getCosignKeyEnv()], process.env.COSIGN_PASSWORD]
+      : [];
+    return [
+      this.getOciPassword(),
+      ...(this.cfg.ociRepos ?? []).map((t) => t.password),
+      this.getSignPassphrase(),
+      this.getSignKeyringBase64(),
+      ...cosign,
+    ].filter((v): v is string => !!v);
+  }
+
   /**
    * True when a username is present for OCI.
    *
@@ -298,22 +963,4 @@ export class HelmConfig {
     if (!host) return undefined;
     return typeof port === 'number' ? `${host}:${port}` : host;
   }
-
-  /**
-   * Optional `helm push` flag for plain HTTP when insecure is on.
-   *
-   * @returns `' --plain-http'` or an empty string.
-   */
-  getOciPlainHttpFlag(): string {
-    return this.getOciInsecure() ? ' --plain-http' : '';
-  }
-
-  /**
-   * Optional `helm registry login` flag for insecure mode.
-   *
-   * @returns `' --insecure'` or an empty string.
-   */
-  getOciInsecureLoginFlag(): string {
-    return this.getOciInsecure() ? ' --insecure' : '';
-  }
 }
@@ -0,0 +1,50 @@
+/**
+ * Placeholder written in place of secret values. It matches the marker
+ * semantic-release itself uses for masked environment variables.
+ */
+export const REDACTED = '[secure]';
+
+/**
+ * Secret values registered for masking. The set is process-wide so
+ * every command runner masks the same values without threading them
+ * through each call.
+ */
+const secrets = new Set<string>();
+
+/**
+ * Register values that must never appear in logs. Empty and undefined
+ * values are ignored.
+ *
+ * @param values Secret values, e.g. registry passwords.
+ */
+export function registerSecrets(...values: Array<string | undefined>): void {
+  for (const value of values) {
+    if (value && value.trim().length > 0) {
+      secrets.add(value);
+    }
+  }
+}
+
+/**
+ * Forget every registered secret.
+ */
+export function clearSecrets(): void {
+  secrets.clear();
+}
+
+/**
+ * Replace every registered secret in `text` with {@link REDACTED}.
+ * Longer secrets are replaced first so a secret containing another one
+ * is masked as a whole.
+ *
+ * @param text Command line, output or error message to log.
+ * @returns The text with secrets masked.
+ */
+export function redact(text: string): string {
+  let out = text;
+  const ordered = [...secrets].sort((a, b) => b.length - a.length);
+  for (const secret of ordered) {
+    out = out.split(secret).join(REDACTED);
+  }
+  return out;
+}
@@ -0,0 +1,380 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { HelmConfig } from './plugin-config.js';
+import type { DockerImageOptions } from './docker/image.js';
+import { registerSecrets } from './redact.js';
+import { runCommandSync } from './command-runner.js';
+
+/**
+ * Container directory holding a mounted registry config. Helm reads
+ * the file through `HELM_REGISTRY_CONFIG`, oras and cosign through
+ * `DOCKER_CONFIG`, which expects the file to be named `config.json`.
+ */
+const CONFIG_MOUNT_DIR = '/run/helm-registry';
+
+/**
+ * Container variables the registry login scripts read. Only the
+ * password is passed as a secret variable; none of them is ever part
+ * of a script, so configured values are not parsed by a shell.
+ */
+const PASSWORD_ENV = 'OCI_PASSWORD';
+const USERNAME_ENV = 'OCI_USERNAME';
+const REGISTRY_ENV = 'OCI_REGISTRY';
+const INSECURE_ENV = 'OCI_INSECURE';
+
+/**
+ * Fixed scripts logging `helm` or `oras` in to the registry named by
+ * `OCI_REGISTRY`, reading the password from stdin.
+ */
+const LOGIN_SCRIPTS = {
+  helm:
+    'printf %s "$OCI_PASSWORD" | helm registry login ' +
+    '${OCI_INSECURE:+--insecure} --username="$OCI_USERNAME" ' +
+    '--password-stdin "$OCI_REGISTRY"',
+  oras:
+    'printf %s "$OCI_PASSWORD" | oras login ' +
+    '${OCI_INSECURE:+--plain-http} --username="$OCI_USERNAME" ' +
+    '--password-stdin "$OCI_REGISTRY"',
+} as const;
+
+/**
+ * Docker Hub is known under several names in configs and references.
+ */
+const DOCKER_HUB = new Set([
+  'docker.io',
+  'index.docker.io',
+  'registry-1.docker.io',
+]);
+
+/**
+ * Username and password or token for an OCI registry.
+ */
+export interface RegistryCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Subset of a Docker `config.json` (or Helm `registry/config.json`,
+ * which shares the format) relevant for authentication.
+ */
+export interface RegistryConfigFile {
+  auths?: Record<string, { auth?: string; identitytoken?: string }>;
+  credHelpers?: Record<string, string>;
+  credsStore?: string;
+}
+
+/**
+ * How a registry config authenticates against a registry: with stored
+ * credentials in `auths`, or through a credential helper. `key` is the
+ * server name as written in the config.
+ */
+export type RegistryEntry =
+  | { source: 'auths'; key: string }
+  | { source: 'helper'; key: string; helper: string };
+
+/**
+ * How the Helm, oras and cosign containers authenticate: not at all,
+ * by logging in with credentials, or with a mounted registry config.
+ */
+export type OciAuth =
+  | { kind: 'none' }
+  | ({ kind: 'login' } & RegistryCredentials)
+  | { kind: 'config'; file: string };
+
+/**
+ * Look up credentials through a Docker credential helper.
+ */
+export type CredentialHelper = (
+  helper: string,
+  serverUrl: string,
+  timeout?: number,
+) => RegistryCredentials;
+
+/**
+ * Run `docker-credential-<helper> get` on the host. Helpers such as
+ * `ecr-login` or `gcloud` are installed on the runner, not in the tool
+ * images, so credentials are resolved here and handed to the
+ * containers like configured ones.
+ *
+ * @param helper Helper suffix, e.g. `ecr-login`.
+ * @param serverUrl Registry server as written in the config.
+ * @param timeout Time in milliseconds the helper may run.
+ * @returns Credentials returned by the helper.
+ * @throws SemanticReleaseError `ECOMMANDTIMEOUT` when the helper does
+ *         not answer in time.
+ */
+export const runCredentialHelper: CredentialHelper = (
+  helper,
+  serverUrl,
+  timeout,
+) => {
+  const out = runCommandSync([`docker-credential-${helper}`, 'get'], {
+    cwd: process.cwd(),
+    input: serverUrl,
+    timeout,
+  });
+  const parsed = JSON.parse(out) as { Username?: string; Secret?: string };
+  return { username: parsed.Username ?? '', password: parsed.Secret ?? '' };
+};
+
+/**
+ * Reduce a config server key such as `https://index.docker.io/v1/` to
+ * the host and port used for comparisons.
+ */
+function registryHost(key: string): string {
+  const host = key
+    .replace(/^[a-z]+:\/\//i, '')
+    .replace(/\/.*$/, '')
+    .toLowerCase();
+  return DOCKER_HUB.has(host) ? 'docker.io' : host;
+}
+
+/**
+ * Find the entry of a registry config that applies to a registry.
+ * `credHelpers` take precedence, then stored `auths` credentials. An
+ * `auths` entry without credentials, as written by `docker login` when
+ * a `credsStore` is configured, resolves to that store.
+ *
+ * @param config Parsed registry config.
+ * @param hostPort Registry host with optional port.
+ * @returns The matching entry, or `undefined`.
+ */
+export function findRegistryEntry(
+  config: RegistryConfigFile,
+  hostPort: string,
+): RegistryEntry | undefined {
+  const host = registryHost(hostPort);
+  const helper = Object.entries(config.credHelpers ?? {}).find(
+    ([key]) => registryHost(key) === host,
+  );
+  if (helper) {
+    return { source: 'helper', key: helper[0], helper: helper[1] };
+  }
+  const auth = Object.entries(config.auths ?? {}).find(
+    ([key]) => registryHost(key) === host,
+  );
+  if (!auth) {
+    return undefined;
+  }
+  if (auth[1]?.auth || auth[1]?.identitytoken) {
+    return { source: 'auths', key: auth[0] };
+  }
+  return config.credsStore
+    ? { source: 'helper', key: auth[0], helper: config.credsStore }
+    : undefined;
+}
+
+/**
+ * Read the configured registry config and find its entry for the OCI
+ * registry.
+ *
+ * @param cfg Resolved plugin configuration with `ociRegistryConfig` set.
+ * @param cwd Repository root used to resolve relative paths.
+ * @returns Absolute path of the file and its matching entry.
+ * @throws SemanticReleaseError when the file is missing, is not a valid
+ *         config, or has no entry for the registry.
+ */
+export function registryConfigEntry(
+  cfg: HelmConfig,
+  cwd: string,
+): { file: string; entry: RegistryEntry } {
+  const file = cfg.getOciRegistryConfig(cwd) ?? '';
+  const hostPort = cfg.getOciHostPort() ?? '';
+  if (!fs.existsSync(file)) {
+    throw new SemanticReleaseError(
+      'Registry config not found.',
+      'ENOREGISTRYCONFIG',
+      `ociRegistryConfig points to ${file}, which does not exist.`,
+    );
+  }
+  let config: RegistryConfigFile;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8')) as RegistryConfigFile;
+  } catch (err: unknown) {
+    throw new SemanticReleaseError(
+      'Invalid registry config.',
+      'EREGISTRYCONFIG',
+      `Cannot parse ${file}: ` +
+        (err instanceof Error ? err.message : String(err)),
+    );
+  }
+  const entry =
+    typeof config === 'object' && config !== null
+      ? findRegistryEntry(config, hostPort)
+      : undefined;
+  if (!entry) {
+    throw new SemanticReleaseError(
+      'No registry credentials for the OCI registry.',
+      'ENOREGISTRYAUTH',
+      `${file} has no auths or credHelpers entry for ${hostPort}.`,
+    );
+  }
+  return { file, entry };
+}
+
+/**
+ * Decide how containers authenticate against the OCI registry. A
+ * configured `ociRegistryConfig` takes precedence over username and
+ * password: stored credentials are used by mounting the file, and
+ * credential helpers are run on the host, within `commandTimeout`, to
+ * obtain a login.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param cwd Repository root.
+ * @param helper Credential helper runner, replaceable for tests.
+ * @returns The authentication to use.
+ * @throws SemanticReleaseError when the registry config is unusable or
+ *         the credential helper fails or times out.
+ */
+export function resolveOciAuth(
+  cfg: HelmConfig,
+  cwd: string,
+  helper: CredentialHelper = runCredentialHelper,
+): OciAuth {
+  if (cfg.getOciRegistryConfig(cwd)) {
+    const { file, entry } = registryConfigEntry(cfg, cwd);
+    if (entry.source === 'auths') {
+      return { kind: 'config', file };
+    }
+    let creds: RegistryCredentials;
+    try {
+      creds = helper(entry.helper, entry.key, cfg.getCommandTimeout());
+    } catch (err: unknown) {
+      if (err instanceof SemanticReleaseError) throw err;
+      throw new SemanticReleaseError(
+        'Credential helper failed.',
+        'ECREDENTIALHELPER',
+        `docker-credential-${entry.helper} get ${entry.key}: ` +
+          (err instanceof Error ? err.message : String(err)),
+      );
+    }
+    registerSecrets(creds.password);
+    return { kind: 'login', ...creds };
+  }
+  if (cfg.hasOciUser() && cfg.hasOciPass() && cfg.getOciHostPort()) {
+    return {
+      kind: 'login',
+      username: cfg.getOciUsername() ?? '',
+      password: cfg.getOciPassword() ?? '',
+    };
+  }
+  return { kind: 'none' };
+}
+
+/**
+ * Container options that mount a registry config read-only and point
+ * Helm, oras and cosign at it. Other authentication kinds need no
+ * extra options.
+ *
+ * @param auth Resolved authentication.
+ * @param cwd Repository root, kept mounted at `/apps`.
+ * @returns Options for `DockerImage`.
+ */
+export function registryConfigOptions(
+  auth: OciAuth,
+  cwd: string,
+): DockerImageOptions {
+  if (auth.kind !== 'config') {
+    return {};
+  }
+  return {
+    mounts: [
+      { host: cwd, container: '/apps', readonly: false },
+      {
+        host: auth.file,
+        container: `${CONFIG_MOUNT_DIR}/config.json`,
+        readonly: true,
+      },
+    ],
+    env: [
+      `HELM_REGISTRY_CONFIG=${CONFIG_MOUNT_DIR}/config.json`,
+      `DOCKER_CONFIG=${CONFIG_MOUNT_DIR}`,
+    ],
+  };
+}
+
+/**
+ * Shell step logging a tool in to the OCI registry. The script is the
+ * same for every configuration; `registryLoginOptions` supplies the
+ * registry, username and password through the environment.
+ *
+ * @param tool Tool to log in with.
+ * @returns The shell step.
+ */
+export function registryLoginScript(tool: keyof typeof LOGIN_SCRIPTS): string {
+  return LOGIN_SCRIPTS[tool];
+}
+
+/**
+ * Container options for runs against the OCI registry: those of
+ * `registryConfigOptions`, plus the variables read by
+ * `registryLoginScript`. `OCI_REGISTRY` is always set, and
+ * `OCI_INSECURE` when `ociInsecure` is on, so scripts can also address
+ * the registry without logging in.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param auth Resolved authentication.
+ * @param cwd Repository root, kept mounted at `/apps`.
+ * @returns Options for `DockerImage`.
+ */
+export function registryLoginOptions(
+  cfg: HelmConfig,
+  auth: OciAuth,
+  cwd: string,
+): DockerImageOptions {
+  const opts = registryConfigOptions(auth, cwd);
+  const env = [
+    ...(opts.env ?? []),
+    `${REGISTRY_ENV}=${cfg.getOciHostPort() ?? ''}`,
+    ...(cfg.getOciInsecure() ? [`${INSECURE_ENV}=1`] : []),
+  ];
+  if (auth.kind !== 'login') {
+    return { ...opts, env };
+  }
+  return {
+    ...opts,
+    env: [...env, `${USERNAME_ENV}=${auth.username}`],
+    secretEnv: { [PASSWORD_ENV]: auth.password },
+  };
+}
+
+/**
+ * Stage a Docker `config.json` holding the OCI registry credentials in
+ * a fresh directory below the system temp directory, outside the
+ * repository. Mount it with `registryConfigOptions` as a `config`
+ * authentication; this is how credentials reach images without a
+ * shell, such as cosign, which cannot read a password from stdin. The
+ * file is written with owner-only permissions.
+ *
+ * @param creds Credentials to stage.
+ * @param hostPort Registry host with optional port.
+ * @returns Path of the staged file; pass it to `removeRegistryAuth`.
+ */
+export function writeRegistryAuth(
+  creds: RegistryCredentials,
+  hostPort: string,
+): string {
+  const auth = Buffer.from(`${creds.username}:${creds.password}`).toString(
+    'base64',
+  );
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'helm-registry-'));
+  const file = path.join(dir, 'config.json');
+  fs.writeFileSync(file, JSON.stringify({ auths: { [hostPort]: { auth } } }), {
+    mode: 0o600,
+  });
+  return file;
+}
+
+/**
+ * Remove staged registry credentials.
+ *
+ * @param file Path returned by `writeRegistryAuth`.
+ */
+export function removeRegistryAuth(file: string): void {
+  fs.rmSync(path.dirname(file), { recursive: true, force: true });
+}
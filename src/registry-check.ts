@@ -0,0 +1,181 @@
+// @ts-expect-error semantic-release types are not bundled
+import { Context } from 'semantic-release';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import type { HelmConfig } from './plugin-config.js';
+import { DockerImage, DockerImageOptions } from './docker/image.js';
+import { clientFor } from './runtime.js';
+import {
+  OciAuth,
+  registryLoginOptions,
+  registryLoginScript,
+} from './registry-auth.js';
+
+/**
+ * Exit codes of the check script, one per step, so a failure can be
+ * attributed without parsing which command printed what.
+ */
+const LOGIN_FAILED = 3;
+const CATALOG_FAILED = 4;
+const PING_FAILED = 5;
+
+/**
+ * Container variable naming the repository the ping lists tags of.
+ */
+const REPOSITORY_ENV = 'OCI_REPOSITORY';
+
+/**
+ * What a registry error message says about the failure: rejected
+ * credentials, an endpoint the registry does not offer (many hosted
+ * registries disable the catalog), or anything else, which is treated
+ * as the registry not being reachable.
+ */
+export type RegistryFailure = 'auth' | 'unsupported' | 'unreachable';
+
+/**
+ * Classify the output of a failed `oras login` or `oras repo ls`.
+ *
+ * @param output Combined output and error message of the command.
+ * @returns The failure class.
+ */
+export function classifyRegistryFailure(output: string): RegistryFailure {
+  if (
+    /unauthori[sz]ed|authentication required|denied|\b40[13]\b/i.test(output)
+  ) {
+    return 'auth';
+  }
+  if (/\b404\b|not found|unsupported|not implemented/i.test(output)) {
+    return 'unsupported';
+  }
+  return 'unreachable';
+}
+
+/**
+ * Build the check script: log in when `auth` carries credentials, or
+ * ping the configured repository with the mounted registry config when
+ * `auth` is `config`, then list the registry catalog, which also proves
+ * the registry answers the OCI distribution API. Each step exits with
+ * its own code. The script only reads the registry, repository and
+ * credentials from the environment, so it is the same for every
+ * configuration.
+ *
+ * @param auth Registry authentication from `resolveOciAuth`.
+ * @returns The shell script.
+ */
+export function registryCheckScript(auth: OciAuth): string {
+  const steps: string[] = [];
+  if (auth.kind === 'login') {
+    steps.push(
+      `{ ${registryLoginScript('oras')} 2>&1 || exit ${LOGIN_FAILED}; }`,
+    );
+  }
+  if (auth.kind === 'config') {
+    steps.push(
+      '{ oras repo tags ${OCI_INSECURE:+--plain-http} ' +
+        `"$${REPOSITORY_ENV}" 2>&1 || exit ${PING_FAILED}; }`,
+    );
+  }
+  steps.push(
+    '{ oras repo ls ${OCI_INSECURE:+--plain-http} "$OCI_REGISTRY" 2>&1 ' +
+      `|| exit ${CATALOG_FAILED}; }`,
+  );
+  return steps.join(' && ');
+}
+
+/**
+ * Run a registry check script and return its output. Rejections carry
+ * the exit `status` and the captured `stdout` of the container.
+ */
+export type RegistryCheckRunner = (
+  script: string,
+  opts: DockerImageOptions,
+) => Promise<string>;
+
+/**
+ * Verify that the OCI registry is reachable and accepts the configured
+ * credentials, before any tag is created. The check runs `oras` in a
+ * container, so registry host names resolve as they do for `helm push`,
+ * or from the host with the `native` runtime.
+ * Refusals are only attributed to the credentials when they come from
+ * the login, or from the repository ping with a registry config: a
+ * catalog the registry does not offer, or does not open to the
+ * configured account, still proves reachability and only logs a note.
+ *
+ * @param cfg Resolved plugin configuration with OCI enabled.
+ * @param auth Registry authentication from `resolveOciAuth`.
+ * @param cwd Repository root.
+ * @param logger semantic-release logger used for structured logs.
+ * @param run Script runner, replaceable for tests.
+ * @throws SemanticReleaseError `EOCIAUTH` when credentials are rejected
+ *         and `EOCIUNREACHABLE` when the registry cannot be reached.
+ */
+export async function verifyRegistry(
+  cfg: HelmConfig,
+  auth: OciAuth,
+  cwd: string,
+  logger: Context['logger'],
+  run?: RegistryCheckRunner,
+): Promise<void> {
+  const hostPort = cfg.getOciHostPort() ?? '';
+  const runner: RegistryCheckRunner =
+    run ??
+    (async (script, opts) => {
+      const img = new DockerImage(
+        cfg.getOrasImage(),
+        cwd,
+        logger,
+        clientFor(cfg),
+        opts,
+      );
+      return (await img.shell(script)).stdout;
+    });
+
+  try {
+    const opts = registryLoginOptions(cfg, auth, cwd);
+    await runner(registryCheckScript(auth), {
+      ...opts,
+      env: [...(opts.env ?? []), `${REPOSITORY_ENV}=${cfg.getOciRepoPath()}`],
+    });
+  } catch (err: unknown) {
+    const e = (err ?? {}) as {
+      status?: number;
+      stdout?: string | Buffer;
+      message?: string;
+    };
+    const output = `${e.stdout?.toString() ?? ''}\n${e.message ?? ''}`;
+    const failure = classifyRegistryFailure(output);
+    const step =
+      e.status === LOGIN_FAILED
+        ? 'login'
+        : e.status === PING_FAILED
+          ? 'ping'
+          : 'catalog';
+
+    if (
+      failure === 'auth' &&
+      (step === 'login' || (step === 'ping' && auth.kind === 'config'))
+    ) {
+      throw new SemanticReleaseError(
+        'OCI registry rejected the credentials.',
+        'EOCIAUTH',
+        `Registry ${hostPort} refused the ${step} with the configured ` +
+          'credentials. Check ociUsername/ociPassword, ociRegistryConfig ' +
+          'or ociAuth.',
+      );
+    }
+    if (failure === 'unreachable' || step === 'login') {
+      throw new SemanticReleaseError(
+        'OCI registry not reachable.',
+        'EOCIUNREACHABLE',
+        `Cannot reach an OCI registry at ${hostPort}. Check ociRepo, ` +
+          `ociInsecure and the network: ${output.trim()}`,
+      );
+    }
+    logger.log(
+      `verifyConditions: registry ${hostPort} is reachable; ` +
+        `${step} not available (${failure})`,
+    );
+    return;
+  }
+  logger.log(`verifyConditions: registry ${hostPort} is reachable`);
+}
@@ -0,0 +1,52 @@
+/**
+ * One published copy of a chart: an OCI push or a gh-pages index entry.
+ * OCI artifacts carry the pushed digest; gh-pages artifacts carry the
+ * download URL written into the index, when it is absolute.
+ */
+export interface HelmReleaseArtifact {
+  name: string;
+  version: string;
+  target: 'oci' | 'gh-pages';
+  url?: string;
+  digest?: string;
+}
+
+/**
+ * Release object returned from `publish`. semantic-release accepts a
+ * single plain object per plugin and step, so every pushed chart and
+ * index update is listed in `artifacts`, while `name` and `url` give
+ * other plugins one summary link.
+ */
+export interface HelmRelease {
+  name: string;
+  url?: string;
+  channel?: string;
+  artifacts: HelmReleaseArtifact[];
+}
+
+/**
+ * Summarize published artifacts as a semantic-release release object.
+ * The name lists each distinct chart version once, and the URL is the
+ * first artifact that has one, preferring OCI references.
+ *
+ * @param artifacts Everything that was published.
+ * @param channel Release channel, or `undefined` for the default one.
+ * @returns The release object.
+ */
+export function buildRelease(
+  artifacts: HelmReleaseArtifact[],
+  channel?: string,
+): HelmRelease {
+  const charts = [
+    ...new Set(artifacts.map((a) => `${a.name} ${a.version}`)),
+  ].join(', ');
+  const url =
+    artifacts.find((a) => a.target === 'oci' && a.url)?.url ??
+    artifacts.find((a) => a.url)?.url;
+  return {
+    name: `Helm chart${charts.includes(',') ? 's' : ''} ${charts}`,
+    ...(url ? { url } : {}),
+    ...(channel ? { channel } : {}),
+    artifacts,
+  };
+}
@@ -0,0 +1,134 @@
+import type { HelmConfig } from './plugin-config.js';
+import type {
+  ContainerEngine,
+  DockerClient,
+  EngineInfo,
+} from './docker/client.js';
+import {
+  DockerCliClient,
+  defaultRunner,
+  hostUser,
+  Runner,
+} from './docker/cli-client.js';
+import { NativeClient } from './docker/native-client.js';
+import { detectEngine, ENGINES } from './docker/engine.js';
+import { DockerHelmDocs, HelmDocs, NativeHelmDocs } from './helm-docs.js';
+
+/**
+ * A resolved runtime: containers (with any engine) or host binaries.
+ */
+export type Runtime = 'native' | 'docker';
+
+/**
+ * Find an engine among the candidates, giving each probe `timeout`
+ * milliseconds; see `detectEngine`.
+ */
+export type EngineDetector = (
+  candidates: ContainerEngine[],
+  timeout?: number,
+) => EngineInfo | undefined;
+
+/**
+ * Detected engine, or `null` when none answered. Kept for the lifetime
+ * of the process so each step does not probe again.
+ */
+let detected: EngineInfo | null | undefined;
+
+/**
+ * Container engine to run images with: the configured one if it
+ * answers, otherwise the first of Docker, Podman and nerdctl that does.
+ * Each probe is limited to `commandTimeout`.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param detect Engine detector, replaceable for tests.
+ * @returns The engine, or `undefined` when none is available.
+ */
+export function resolveEngine(
+  cfg: HelmConfig,
+  detect: EngineDetector = detectEngine,
+): EngineInfo | undefined {
+  if (detected === undefined) {
+    const engine = cfg.getContainerEngine();
+    detected =
+      detect(engine ? [engine] : ENGINES, cfg.getCommandTimeout()) ?? null;
+  }
+  return detected ?? undefined;
+}
+
+/**
+ * Resolve the configured runtime. `auto` picks containers when an
+ * engine answers and host binaries otherwise.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @param detect Engine detector, replaceable for tests.
+ * @returns The runtime to use.
+ */
+export function resolveRuntime(
+  cfg: HelmConfig,
+  detect: EngineDetector = detectEngine,
+): Runtime {
+  const runtime = cfg.getRuntime();
+  if (runtime !== 'auto') {
+    return runtime;
+  }
+  return resolveEngine(cfg, detect) ? 'docker' : 'native';
+}
+
+/**
+ * Forget the detected engine.
+ */
+export function resetRuntime(): void {
+  detected = undefined;
+}
+
+/**
+ * Host binaries standing in for the configured images.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @returns Binary names by image reference.
+ */
+export function nativeTools(cfg: HelmConfig): Record<string, string> {
+  return {
+    [cfg.getHelmImage()]: 'helm',
+    [cfg.getDocsImage()]: 'helm-docs',
+    [cfg.getOrasImage()]: 'oras',
+    [cfg.getCosignImage()]: 'cosign',
+  };
+}
+
+/**
+ * Client that runs the configured images in the resolved runtime.
+ * Every run and pull is limited to `commandTimeout` unless the caller
+ * sets its own timeout.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @returns A Docker or host-binary client.
+ */
+export function clientFor(cfg: HelmConfig): DockerClient {
+  const timeout = cfg.getCommandTimeout();
+  const runner: Runner = (argv, cwd, env, opts) =>
+    defaultRunner(argv, cwd, env, {
+      ...opts,
+      timeout: opts?.timeout ?? timeout,
+    });
+  return resolveRuntime(cfg) === 'native'
+    ? new NativeClient(nativeTools(cfg), runner)
+    : new DockerCliClient(
+        runner,
+        resolveEngine(cfg) ?? { name: cfg.getContainerEngine() ?? 'docker' },
+        cfg.isRunAsHostUser() ? hostUser() : null,
+      );
+}
+
+/**
+ * helm-docs implementation for the resolved runtime, limited to
+ * `commandTimeout` like other runs.
+ *
+ * @param cfg Resolved plugin configuration.
+ * @returns A Docker or host-binary helm-docs.
+ */
+export function helmDocsFor(cfg: HelmConfig): HelmDocs {
+  return resolveRuntime(cfg) === 'native'
+    ? new NativeHelmDocs({ timeout: cfg.getCommandTimeout() })
+    : new DockerHelmDocs({ image: cfg.getDocsImage(), client: clientFor(cfg) });
+}
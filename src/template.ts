@@ -0,0 +1,18 @@
+/**
+ * Render a `${name}` placeholder template, in the same notation that
+ * semantic-release uses for `tagFormat`. Unknown placeholders are left
+ * untouched so that typos remain visible in the rendered output rather
+ * than silently collapsing to an empty string.
+ *
+ * @param template Template such as `v${version}`.
+ * @param vars Values available to the template.
+ * @returns The rendered string.
+ */
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string>,
+): string {
+  return template.replace(/\$\{\s*(\w+)\s*\}/g, (whole, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : whole,
+  );
+}
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import * as yaml from 'yaml';
+import type { ValuesUpdate } from './plugin-config.js';
+import { renderTemplate } from './template.js';
+import { setYamlValue } from './yaml-edit.js';
+
+/**
+ * Apply the configured value rewrites to a chart. Updates are grouped
+ * per file so each file is read and written once, and a file is only
+ * written when its content changes. Paths must already exist, so a
+ * misspelled path fails the release instead of adding a stray key.
+ *
+ * @param chartDir Absolute chart directory.
+ * @param updates Normalized updates from the plugin configuration.
+ * @param vars Template variables such as `version` and `appVersion`.
+ * @returns Files that were modified, relative to `chartDir`.
+ * @throws SemanticReleaseError when a file or path does not exist.
+ */
+export function applyValuesUpdates(
+  chartDir: string,
+  updates: Required<ValuesUpdate>[],
+  vars: Record<string, string>,
+): string[] {
+  const touched: string[] = [];
+  const files = [...new Set(updates.map((u) => u.file))];
+
+  for (const file of files) {
+    const filePath = path.join(chartDir, file);
+    if (!fs.existsSync(filePath)) {
+      throw new SemanticReleaseError(
+        'valuesUpdates file not found.',
+        'EVALUESUPDATE',
+        `Expected ${file} to exist in ${chartDir}.`,
+      );
+    }
+    const original = fs.readFileSync(filePath, 'utf8');
+    let text = original;
+    for (const update of updates.filter((u) => u.file === file)) {
+      const keyPath = update.path.split('.');
+      if (!yaml.parseDocument(text).hasIn(keyPath)) {
+        throw new SemanticReleaseError(
+          'valuesUpdates path not found.',
+          'EVALUESUPDATE',
+          `${file} has no value at "${update.path}".`,
+        );
+      }
+      text = setYamlValue(text, keyPath, renderTemplate(update.value, vars));
+    }
+    if (text !== original) {
+      fs.writeFileSync(filePath, text, 'utf8');
+      touched.push(file);
+    }
+  }
+  return touched;
+}
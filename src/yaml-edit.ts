@@ -0,0 +1,96 @@
+import * as yaml from 'yaml';
+
+/**
+ * Return true when `value` survives a round trip as a plain (unquoted)
+ * YAML scalar. Strings such as `1.0`, `true` or `~` would change type
+ * and strings with indicators would change meaning, so those need
+ * quoting.
+ */
+function isPlainSafe(value: string): boolean {
+  if (value.length === 0 || value !== value.trim() || value.includes('\n')) {
+    return false;
+  }
+  try {
+    return (yaml.parse(`k: ${value}`) as { k?: unknown })?.k === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a string scalar in the quoting style of the scalar it replaces,
+ * falling back to double quotes when the style cannot hold the value.
+ *
+ * @param value New string value.
+ * @param style Scalar type of the node being replaced.
+ * @returns YAML source text for the scalar.
+ */
+function formatScalar(value: string, style?: string): string {
+  if (style === yaml.Scalar.QUOTE_SINGLE && !value.includes('\n')) {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  if (style === yaml.Scalar.QUOTE_DOUBLE || !isPlainSafe(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Set the value at `keyPath` in a YAML document while keeping the rest
+ * of the source byte-for-byte. When the target is an existing scalar
+ * and the new value is a scalar, only that scalar's text is replaced,
+ * in its original quoting style. A missing top-level key is appended
+ * as a new line. Anything else (new nested keys, collection values)
+ * falls back to the `yaml` Document API, which keeps comments and key
+ * order but may normalize indentation.
+ *
+ * @param source Original YAML text.
+ * @param keyPath Path of mapping keys, e.g. `["image", "tag"]`.
+ * @param value New value.
+ * @returns Updated YAML text, identical to `source` when unchanged.
+ * @throws Error when the source is not valid YAML.
+ */
+export function setYamlValue(
+  source: string,
+  keyPath: string[],
+  value: unknown,
+): string {
+  const doc = yaml.parseDocument(source);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+  }
+
+  const node = doc.getIn(keyPath, true);
+  const scalarValue =
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean';
+
+  if (yaml.isScalar(node) && scalarValue && node.range) {
+    if (node.value === value) {
+      return source;
+    }
+    const text =
+      typeof value === 'string'
+        ? formatScalar(value, node.type)
+        : String(value);
+    const [start, end] = node.range;
+    const pad = start === end && source[start - 1] === ':' ? ' ' : '';
+    return source.slice(0, start) + pad + text + source.slice(end);
+  }
+
+  if (
+    node === undefined &&
+    keyPath.length === 1 &&
+    scalarValue &&
+    (doc.contents === null || (yaml.isMap(doc.contents) && !doc.contents.flow))
+  ) {
+    const text =
+      typeof value === 'string' ? formatScalar(value) : String(value);
+    const sep = source.length === 0 || source.endsWith('\n') ? '' : '\n';
+    return `${source}${sep}${keyPath[0]}: ${text}\n`;
+  }
+
+  doc.setIn(keyPath, value);
+  return doc.toString({ lineWidth: 0 });
+}
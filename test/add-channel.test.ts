@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import type { Context } from 'semantic-release';
+import { addChannel } from '../src/index.js';
+import { CHANNEL_ANNOTATION, HelmIndexDoc } from '../src/helm-index.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const logger = { log: () => {}, error: () => {} };
+
+/**
+ * Create a repository with `charts/app` at `version` and a bare
+ * `origin` whose gh-pages branch already lists that version on the
+ * `next` channel, as left behind by an earlier publish.
+ */
+function makeRepo(base: string, version: string): void {
+  const work = path.join(base, 'work');
+  const remote = path.join(base, 'remote.git');
+  fs.mkdirSync(work);
+  const git = (cmd: string) =>
+    execSync(`git ${cmd}`, { cwd: work, encoding: 'utf8' }).trim();
+
+  execSync(`git init -q --bare "${remote}"`);
+  git('init -q -b main');
+  git('config user.email "ci@example.com"');
+  git('config user.name "CI Tester"');
+  git(`remote add origin "${remote}"`);
+
+  fs.writeFileSync(
+    path.join(work, 'index.yaml'),
+    yaml.stringify({
+      apiVersion: 'v1',
+      entries: {
+        app: [
+          {
+            name: 'app',
+            version,
+            annotations: { [CHANNEL_ANNOTATION]: 'next' },
+          },
+        ],
+      },
+    }),
+  );
+  git('checkout -q --orphan gh-pages');
+  git('add index.yaml');
+  git('commit -q -m "pages"');
+  git('push -q origin gh-pages');
+
+  git('checkout -q --orphan main');
+  git('rm -q -r --cached .');
+  fs.rmSync(path.join(work, 'index.yaml'));
+  fs.mkdirSync(path.join(work, 'charts', 'app'), { recursive: true });
+  fs.writeFileSync(
+    path.join(work, 'charts', 'app', 'Chart.yaml'),
+    `apiVersion: v2\nname: app\nversion: ${version}\n`,
+  );
+  git('add -A');
+  git('commit -q -m "chore: init"');
+}
+
+function remoteIndex(base: string): HelmIndexDoc {
+  return yaml.parse(
+    execSync('git show gh-pages:index.yaml', {
+      cwd: path.join(base, 'remote.git'),
+      encoding: 'utf8',
+    }),
+  ) as HelmIndexDoc;
+}
+
+describe('addChannel', () => {
+  it(
+    'moves gh-pages entries to the promoted channel',
+    withTempDir(async (base: string) => {
+      makeRepo(base, '2.0.0');
+      const run = (channel: string | null) =>
+        addChannel({ chartPath: 'charts/app' }, {
+          cwd: path.join(base, 'work'),
+          logger,
+          nextRelease: { version: '2.0.0', channel },
+        } as unknown as Context);
+
+      await run('beta');
+      const beta = remoteIndex(base).entries.app[0].annotations;
+      await run(null);
+      const stable = remoteIndex(base).entries.app[0].annotations;
+
+      expect({ beta, stable }).toEqual({
+        beta: { [CHANNEL_ANNOTATION]: 'beta' },
+        stable: undefined,
+      });
+    }),
+  );
+});
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import type { AnalyzeCommitsContext } from 'semantic-release';
+import { analyzeCommits } from '../src/index.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const logger = { log: () => {}, error: () => {} };
+
+/**
+ * Create a repository with a chart under `charts/app` and application
+ * code next to it, then return a helper that commits a set of file
+ * writes (or deletions when the content is `null`) and yields the
+ * semantic-release commit shape.
+ */
+function makeRepo(base: string) {
+  const git = (cmd: string) =>
+    execSync(`git ${cmd}`, { cwd: base, encoding: 'utf8' }).trim();
+  git('init -q -b main');
+  git('config user.email "ci@example.com"');
+  git('config user.name "CI Tester"');
+
+  const commit = (
+    message: string,
+    files: Record<string, string | null>,
+  ): { hash: string; message: string } => {
+    for (const [file, content] of Object.entries(files)) {
+      const abs = path.join(base, file);
+      if (content === null) {
+        fs.rmSync(abs);
+      } else {
+        fs.mkdirSync(path.dirname(abs), { recursive: true });
+        fs.writeFileSync(abs, content, 'utf8');
+      }
+    }
+    git('add -A');
+    git(`commit -q -m "${message}"`);
+    return { hash: git('rev-parse HEAD'), message };
+  };
+
+  commit('chore: init', {
+    'charts/app/Chart.yaml': 'apiVersion: v2\nname: app\nversion: 1.0.0\n',
+    'charts/app/values.yaml': 'image:\n  tag: "1.0"\n  pullPolicy: Always\n',
+    'charts/app/templates/deployment.yaml': 'kind: Deployment\n',
+    'src/main.go': 'package main\n',
+  });
+
+  return commit;
+}
+
+async function analyze(
+  base: string,
+  commits: Array<{ hash: string; message: string }>,
+) {
+  return analyzeCommits({ chartPath: 'charts/app' }, {
+    cwd: base,
+    logger,
+    commits,
+  } as unknown as AnalyzeCommitsContext);
+}
+
+describe('analyzeCommits', () => {
+  it(
+    'returns null for application-only commits',
+    withTempDir(async (base: string) => {
+      const commit = makeRepo(base);
+      const app = commit('feat: new endpoint', {
+        'src/main.go': 'package main\n// v2\n',
+      });
+      await expect(analyze(base, [app])).resolves.toBeNull();
+    }),
+  );
+
+  it(
+    'returns patch for other chart changes and minor for new templates',
+    withTempDir(async (base: string) => {
+      const commit = makeRepo(base);
+      const tweak = commit('fix: bump tag', {
+        'charts/app/values.yaml':
+          'image:\n  tag: "1.1"\n  pullPolicy: Always\n',
+      });
+      await expect(analyze(base, [tweak])).resolves.toBe('patch');
+
+      const template = commit('chore: add service', {
+        'charts/app/templates/service.yaml': 'kind: Service\n',
+      });
+      await expect(analyze(base, [tweak, template])).resolves.toBe('minor');
+    }),
+  );
+
+  it(
+    'returns major when values keys are removed',
+    withTempDir(async (base: string) => {
+      const commit = makeRepo(base);
+      const removal = commit('chore: drop pullPolicy', {
+        'charts/app/values.yaml': 'image:\n  tag: "1.0"\n',
+      });
+      await expect(analyze(base, [removal])).resolves.toBe('major');
+    }),
+  );
+
+  it(
+    'returns major when values.schema.json is tightened',
+    withTempDir(async (base: string) => {
+      const commit = makeRepo(base);
+      const schema = commit('chore: add schema', {
+        'charts/app/values.schema.json': JSON.stringify({
+          type: 'object',
+          properties: { image: { type: 'object' } },
+        }),
+      });
+      const tighten = commit('chore: require image', {
+        'charts/app/values.schema.json': JSON.stringify({
+          type: 'object',
+          required: ['image'],
+          properties: { image: { type: 'object' } },
+        }),
+      });
+      await expect(analyze(base, [tighten])).resolves.toBe('major');
+      expect(schema.hash).not.toBe(tighten.hash);
+    }),
+  );
+
+  it(
+    'treats a chart at the repository root as owning every file',
+    withTempDir(async (base: string) => {
+      const commit = makeRepo(base);
+      commit('chore: root chart', {
+        'Chart.yaml': 'apiVersion: v2\nname: root\nversion: 1.0.0\n',
+        'values.yaml': 'replicas: 1\n',
+      });
+      const drop = commit('chore: drop replicas', { 'values.yaml': 'a: 1\n' });
+      await expect(
+        analyzeCommits({ chartPath: '.' }, {
+          cwd: base,
+          logger,
+          commits: [drop],
+        } as unknown as AnalyzeCommitsContext),
+      ).resolves.toBe('major');
+    }),
+  );
+
+  it(
+    'returns patch when a historical values.yaml is not valid YAML',
+    withTempDir(async (base: string) => {
+      const commit = makeRepo(base);
+      commit('chore: break values', {
+        'charts/app/values.yaml': 'image: [unclosed\n',
+      });
+      const repair = commit('fix: repair values', {
+        'charts/app/values.yaml': 'image:\n  tag: "1.0"\n',
+      });
+      await expect(analyze(base, [repair])).resolves.toBe('patch');
+    }),
+  );
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect } from '@jest/globals';
+import { resolveAppVersion } from '../src/app-version.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+describe('resolveAppVersion', () => {
+  it('copies or templates the release version', () => {
+    expect({
+      none: resolveAppVersion(undefined, '1.2.3', '/nowhere'),
+      copy: resolveAppVersion(true, '1.2.3', '/nowhere'),
+      template: resolveAppVersion('v${version}', '1.2.3', '/nowhere'),
+    }).toEqual({ none: undefined, copy: '1.2.3', template: 'v1.2.3' });
+  });
+
+  it(
+    'reads JSON files at a dotted key and text files by first line',
+    withTempDir((base: string) => {
+      fs.writeFileSync(
+        path.join(base, 'package.json'),
+        JSON.stringify({ version: '4.5.6', app: { release: 7 } }),
+      );
+      fs.writeFileSync(path.join(base, 'VERSION'), '\n  2024.10.1  \nx\n');
+
+      expect({
+        pkg: resolveAppVersion({ file: 'package.json' }, '1.0.0', base),
+        nested: resolveAppVersion(
+          { file: 'package.json', key: 'app.release' },
+          '1.0.0',
+          base,
+        ),
+        text: resolveAppVersion({ file: 'VERSION' }, '1.0.0', base),
+      }).toEqual({ pkg: '4.5.6', nested: '7', text: '2024.10.1' });
+    }),
+  );
+
+  it(
+    'fails with EAPPVERSIONSOURCE for missing files, keys or malformed JSON',
+    withTempDir((base: string) => {
+      fs.writeFileSync(path.join(base, 'package.json'), '{}');
+      fs.writeFileSync(path.join(base, 'broken.json'), '{"version": ');
+
+      expect(() =>
+        resolveAppVersion({ file: 'missing' }, '1.0.0', base),
+      ).toThrow(expect.objectContaining({ code: 'EAPPVERSIONSOURCE' }));
+      expect(() =>
+        resolveAppVersion({ file: 'package.json' }, '1.0.0', base),
+      ).toThrow(expect.objectContaining({ code: 'EAPPVERSIONSOURCE' }));
+      expect(() =>
+        resolveAppVersion({ file: 'broken.json' }, '1.0.0', base),
+      ).toThrow(
+        expect.objectContaining({
+          code: 'EAPPVERSIONSOURCE',
+          details: expect.stringContaining('Cannot parse broken.json'),
+        }),
+      );
+    }),
+  );
+});
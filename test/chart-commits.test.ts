@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import {
+  changedFiles,
+  commitMatchesChart,
+  commitReleaseType,
+  incrementVersion,
+  isPrereleaseVersion,
+  maxReleaseType,
+  parseConventionalHeader,
+} from '../src/chart-commits.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const logger = { log: () => {}, error: () => {} };
+
+describe('parseConventionalHeader', () => {
+  it('parses type, comma separated scopes and breaking markers', () => {
+    expect({
+      plain: parseConventionalHeader('fix(api): handle nil'),
+      multi: parseConventionalHeader('feat(api, web)!: new ingress'),
+      footer: parseConventionalHeader(
+        'refactor: values\n\nBREAKING CHANGE: renamed image.repo',
+      ),
+      other: parseConventionalHeader('Merge branch main'),
+    }).toEqual({
+      plain: { type: 'fix', scopes: ['api'], breaking: false },
+      multi: { type: 'feat', scopes: ['api', 'web'], breaking: true },
+      footer: { type: 'refactor', scopes: [], breaking: true },
+      other: { scopes: [], breaking: false },
+    });
+  });
+});
+
+describe('commitReleaseType and maxReleaseType', () => {
+  it('maps commits to release types and picks the highest', () => {
+    const types = [
+      commitReleaseType('chore(app): tidy'),
+      commitReleaseType('feat(app): add hpa'),
+      commitReleaseType('fix!: drop legacy value'),
+    ];
+    expect(types).toEqual(['patch', 'minor', 'major']);
+    expect(maxReleaseType(types)).toBe('major');
+    expect(maxReleaseType([undefined, 'patch'])).toBe('patch');
+    expect(maxReleaseType([])).toBeUndefined();
+  });
+});
+
+describe('incrementVersion', () => {
+  it.each([
+    ['1.2.3', 'patch', '1.2.4'],
+    ['1.2.3', 'minor', '1.3.0'],
+    ['1.2.3', 'major', '2.0.0'],
+    ['v0.1.0', 'patch', '0.1.1'],
+    ['1.3.0-rc.1', 'patch', '1.3.0'],
+    ['1.3.0-rc.1', 'minor', '1.3.0'],
+    ['2.0.0-beta.2', 'major', '2.0.0'],
+    ['not-a-version', 'minor', '0.1.0'],
+  ] as const)('%s + %s -> %s', (from, type, to) => {
+    expect(incrementVersion(from, type)).toBe(to);
+  });
+});
+
+describe('isPrereleaseVersion', () => {
+  it('detects semver prerelease suffixes only', () => {
+    expect(
+      ['2.0.0-beta.1', 'v1.0.0-rc.0', '1.0.0', '1.0.0+build.5'].map(
+        isPrereleaseVersion,
+      ),
+    ).toEqual([true, true, false, false]);
+  });
+});
+
+describe('commitMatchesChart', () => {
+  const chart = { path: 'charts/api', name: 'api-chart' };
+  const scoped = { hash: 'a', message: 'fix(api): probe' };
+  const unscoped = { hash: 'b', message: 'fix: probe' };
+
+  it('matches by path, by scope, or by either', () => {
+    const inChart = ['charts/api/values.yaml'];
+    const elsewhere = ['src/main.go', 'charts/api-gateway/Chart.yaml'];
+
+    expect({
+      path: [
+        commitMatchesChart(unscoped, inChart, chart, 'path'),
+        commitMatchesChart(scoped, elsewhere, chart, 'path'),
+      ],
+      scope: [
+        commitMatchesChart(scoped, elsewhere, chart, 'scope'),
+        commitMatchesChart(unscoped, inChart, chart, 'scope'),
+        commitMatchesChart(
+          { hash: 'c', message: 'feat(api-chart): x' },
+          [],
+          chart,
+          'scope',
+        ),
+      ],
+      any: [
+        commitMatchesChart(scoped, elsewhere, chart, 'any'),
+        commitMatchesChart(unscoped, inChart, chart, 'any'),
+        commitMatchesChart(unscoped, elsewhere, chart, 'any'),
+      ],
+    }).toEqual({
+      path: [true, false],
+      scope: [true, false, true],
+      any: [true, true, false],
+    });
+  });
+
+  it('matches every file for a chart at the repository root', () => {
+    const root = { path: '.', name: 'root' };
+    expect([
+      commitMatchesChart(unscoped, ['values.yaml'], root, 'path'),
+      commitMatchesChart(
+        unscoped,
+        ['src/main.go'],
+        { ...root, path: './' },
+        'path',
+      ),
+      commitMatchesChart(unscoped, [], root, 'path'),
+    ]).toEqual([true, true, false]);
+  });
+});
+
+describe('changedFiles', () => {
+  it(
+    'lists files of root and regular commits relative to cwd',
+    withTempDir(async (base: string) => {
+      const git = (cmd: string) =>
+        execSync(`git ${cmd}`, { cwd: base, encoding: 'utf8' }).trim();
+      git('init -q -b main');
+      git('config user.email "ci@example.com"');
+      git('config user.name "CI Tester"');
+      fs.mkdirSync(path.join(base, 'charts', 'api'), { recursive: true });
+      fs.writeFileSync(path.join(base, 'charts', 'api', 'Chart.yaml'), 'a');
+      git('add .');
+      git('commit -q -m "feat: init"');
+      const first = git('rev-parse HEAD');
+      fs.writeFileSync(path.join(base, 'README.md'), 'x');
+      git('add .');
+      git('commit -q -m "docs: readme"');
+      const second = git('rev-parse HEAD');
+
+      expect({
+        first: await changedFiles(first, base, logger),
+        second: await changedFiles(second, base, logger),
+        nested: await changedFiles(first, path.join(base, 'charts'), logger),
+      }).toEqual({
+        first: ['charts/api/Chart.yaml'],
+        second: ['README.md'],
+        nested: ['api/Chart.yaml'],
+      });
+    }),
+  );
+});
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect } from '@jest/globals';
+import { findCharts } from '../src/chart-discovery.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+function writeChart(base: string, dir: string): void {
+  const chartDir = path.join(base, dir);
+  fs.mkdirSync(chartDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(chartDir, 'Chart.yaml'),
+    `apiVersion: v2\nname: ${path.basename(dir)}\nversion: 0.1.0\n`,
+    'utf8',
+  );
+}
+
+describe('findCharts', () => {
+  /**
+   * Expands a directory glob to every chart below it and returns the
+   * directories sorted so processing order is deterministic.
+   */
+  it(
+    'expands directory globs in sorted order',
+    withTempDir((base: string) => {
+      writeChart(base, 'charts/web');
+      writeChart(base, 'charts/api');
+      fs.mkdirSync(path.join(base, 'charts', 'empty'), { recursive: true });
+
+      expect(findCharts(base, ['charts/*'])).toEqual([
+        'charts/api',
+        'charts/web',
+      ]);
+    }),
+  );
+
+  /**
+   * Accepts plain directories and Chart.yaml globs side by side and
+   * removes duplicates produced by overlapping patterns.
+   */
+  it(
+    'accepts directories and Chart.yaml globs without duplicates',
+    withTempDir((base: string) => {
+      writeChart(base, 'charts/api');
+      writeChart(base, 'deploy/worker');
+
+      expect(
+        findCharts(base, ['charts/api', '**/Chart.yaml', 'charts/api/']),
+      ).toEqual(['charts/api', 'deploy/worker']);
+    }),
+  );
+
+  /**
+   * Skips vendored subcharts below a matched chart as well as charts
+   * inside ignored folders such as node_modules.
+   */
+  it(
+    'skips nested subcharts and ignored folders',
+    withTempDir((base: string) => {
+      writeChart(base, 'charts/app');
+      writeChart(base, 'charts/app/charts/redis');
+      writeChart(base, 'node_modules/pkg/chart');
+
+      expect(findCharts(base, ['**/Chart.yaml'])).toEqual(['charts/app']);
+    }),
+  );
+
+  /**
+   * Returns an empty list when nothing matches so callers can raise a
+   * precise configuration error.
+   */
+  it(
+    'returns an empty list when nothing matches',
+    withTempDir((base: string) => {
+      expect(findCharts(base, ['charts/*'])).toEqual([]);
+    }),
+  );
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  cloudCredentials,
+  ecrRegion,
+  TokenRequest,
+  tokenRequest,
+} from '../src/cloud-auth.js';
+import { HelmConfig } from '../src/plugin-config.js';
+import { clearSecrets, redact } from '../src/redact.js';
+import { withEnv } from './utils/withenv.js';
+
+const logger = { log: () => {}, error: () => {} };
+
+describe('ecrRegion', () => {
+  it('reads the region from ECR hosts only', () => {
+    expect([
+      ecrRegion('123456789012.dkr.ecr.eu-west-1.amazonaws.com'),
+      ecrRegion('123456789012.dkr.ecr-fips.us-east-1.amazonaws.com'),
+      ecrRegion('ghcr.io'),
+    ]).toEqual(['eu-west-1', 'us-east-1', undefined]);
+  });
+});
+
+describe('tokenRequest', () => {
+  it('asks the AWS CLI for an ECR login password', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://123456789012.dkr.ecr.eu-west-1.amazonaws.com/charts',
+      ociAuth: { type: 'ecr' },
+    });
+
+    const request = tokenRequest(cfg, '/repo');
+    expect(request).toMatchObject({
+      image: 'amazon/aws-cli:2.17.0',
+      script: 'aws ecr get-login-password --region "$1"',
+      args: ['eu-west-1'],
+      username: 'AWS',
+    });
+    expect(request.opts.env).toContain('AWS_SECRET_ACCESS_KEY');
+  });
+
+  it('mounts the Google credentials file for gcloud', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://europe-docker.pkg.dev/project/charts',
+      ociAuth: { type: 'gcp', image: 'gcloud:test' },
+    });
+
+    const request = withEnv(
+      { GOOGLE_APPLICATION_CREDENTIALS: '/secrets/sa.json' },
+      () => tokenRequest(cfg, '/repo'),
+    );
+    expect({
+      image: request.image,
+      username: request.username,
+      mounts: request.opts.mounts,
+      script: request.script,
+    }).toEqual({
+      image: 'gcloud:test',
+      username: 'oauth2accesstoken',
+      mounts: [
+        { host: '/repo', container: '/apps', readonly: false },
+        {
+          host: '/secrets/sa.json',
+          container: '/run/cloud-auth/credentials.json',
+          readonly: true,
+        },
+      ],
+      script:
+        'gcloud auth login --quiet ' +
+        '--cred-file=/run/cloud-auth/credentials.json >/dev/null 2>&1 && ' +
+        'gcloud auth print-access-token',
+    });
+  });
+
+  it('passes a configured region as an argument, not as script text', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://123456789012.dkr.ecr.eu-west-1.amazonaws.com/charts',
+      ociAuth: { type: 'ecr', region: 'eu-west-1; touch pwned' },
+    });
+
+    const request = tokenRequest(cfg, '/repo');
+    expect([request.script, request.args]).toEqual([
+      'aws ecr get-login-password --region "$1"',
+      ['eu-west-1; touch pwned'],
+    ]);
+  });
+
+  it('rejects ECR auth without a region for other hosts', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://registry.example.com/charts',
+      ociAuth: { type: 'ecr' },
+    });
+    expect(() => tokenRequest(cfg, '/repo')).toThrow(
+      expect.objectContaining({ code: 'EOCIAUTHCONFIG' }),
+    );
+  });
+});
+
+describe('cloudCredentials', () => {
+  const cfg = new HelmConfig({
+    chartPath: 'x',
+    ociRepo: 'oci://myregistry.azurecr.io/charts',
+    ociAuth: { type: 'acr' },
+  });
+
+  it('returns the token with the registry user name and masks it', async () => {
+    const seen: TokenRequest[] = [];
+    try {
+      const creds = await cloudCredentials(
+        cfg,
+        '/repo',
+        logger,
+        async (request) => {
+          seen.push(request);
+          return 'acr-token-value\n';
+        },
+      );
+      expect({
+        creds,
+        masked: redact('token acr-token-value'),
+        script: seen[0].script,
+        args: seen[0].args,
+      }).toEqual({
+        creds: {
+          username: '00000000-0000-0000-0000-000000000000',
+          password: 'acr-token-value',
+        },
+        masked: 'token [secure]',
+        script: expect.stringContaining('az acr login --name "$1" '),
+        args: ['myregistry'],
+      });
+    } finally {
+      clearSecrets();
+    }
+  });
+
+  it('maps helper failures and empty tokens to ECLOUDAUTH', async () => {
+    await expect(
+      cloudCredentials(cfg, '/repo', logger, async () => {
+        throw new Error('not logged in');
+      }),
+    ).rejects.toMatchObject({ code: 'ECLOUDAUTH' });
+    await expect(
+      cloudCredentials(cfg, '/repo', logger, async () => ''),
+    ).rejects.toMatchObject({ code: 'ECLOUDAUTH' });
+  });
+});
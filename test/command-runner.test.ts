@@ -1,6 +1,14 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { Console } from 'node:console';
 import { Writable } from 'node:stream';
-import { runHostCmd } from '../src/command-runner.js';
+import {
+  formatCommand,
+  runCommand,
+  runCommandSync,
+  runHostCmd,
+} from '../src/command-runner.js';
+import { clearSecrets, registerSecrets } from '../src/redact.js';
 import { withTempDir } from './utils/tmpdir.js';
 
 function captureConsole() {
@@ -36,18 +44,17 @@ function captureConsole() {
   return { logger, stdout, stderr };
 }
 
-const q = (s: string) => JSON.stringify(s);
-
 describe('runHostCmd (no mocks, full-stream asserts)', () => {
   it(
     'success: returns trimmed stdout and logs it',
-    withTempDir((cwd) => {
+    withTempDir(async (cwd) => {
       const { logger, stdout, stderr } = captureConsole();
 
       const code = 'console.log("hello"); console.log("");';
-      const cmd = `${process.execPath} -e ${q(code)}`;
+      const argv = [process.execPath, '-e', code];
+      const cmd = formatCommand(argv);
 
-      const result = runHostCmd(cmd, cwd, logger);
+      const result = await runHostCmd(argv, cwd, logger);
 
       expect(result).toBe('hello');
       expect(stdout()).toBe(`$ ${cmd}\nhello\n`);
@@ -55,14 +62,32 @@ describe('runHostCmd (no mocks, full-stream asserts)', () => {
     }),
   );
 
+  it(
+    'stream: false logs only the command, not its output',
+    withTempDir(async (cwd) => {
+      const { logger, stdout, stderr } = captureConsole();
+
+      const code = 'console.log("line one"); console.log("line two");';
+      const argv = [process.execPath, '-e', code];
+      const cmd = formatCommand(argv);
+
+      const result = await runHostCmd(argv, cwd, logger, { stream: false });
+
+      expect(result).toBe('line one\nline two');
+      expect(stdout()).toBe(`$ ${cmd}\n`);
+      expect(stderr()).toBe('');
+    }),
+  );
+
   it(
     'success with no output: logs "(no output)" and returns empty string',
-    withTempDir((cwd) => {
+    withTempDir(async (cwd) => {
       const { logger, stdout, stderr } = captureConsole();
 
-      const cmd = `${process.execPath} -e ${q('')}`;
+      const argv = [process.execPath, '-e', ''];
+      const cmd = formatCommand(argv);
 
-      const result = runHostCmd(cmd, cwd, logger);
+      const result = await runHostCmd(argv, cwd, logger);
 
       expect(result).toBe('');
       expect(stdout()).toBe(`$ ${cmd}\n(no output)\n`);
@@ -71,36 +96,174 @@ describe('runHostCmd (no mocks, full-stream asserts)', () => {
   );
 
   it(
-    'failure: logs command, stdout, stderr, and rethrows',
-    withTempDir((cwd) => {
+    'failure: streams stdout and stderr, logs the exit code, and rethrows',
+    withTempDir(async (cwd) => {
       const { logger, stdout, stderr } = captureConsole();
 
       const code =
         'process.stdout.write("out\\n");' +
         'process.stderr.write("err\\n");' +
-        'process.exit(7);';
-      const cmd = `${process.execPath} -e ${q(code)}`;
+        'process.exitCode = 7;';
+      const argv = [process.execPath, '-e', code];
+      const cmd = formatCommand(argv);
+
+      await expect(runHostCmd(argv, cwd, logger)).rejects.toMatchObject({
+        status: 7,
+        stdout: 'out\n',
+        stderr: 'err\n',
+      });
 
-      let threw = false;
+      const [first, ...lines] = stdout().trimEnd().split('\n');
+      expect(first).toBe(`$ ${cmd}`);
+      expect(lines.sort()).toEqual(['err', 'out']);
+      expect(stderr()).toBe(`Command failed: ${cmd}\nExit code 7\n`);
+    }),
+  );
+
+  it(
+    'stream: false logs the masked end of stderr on failure',
+    withTempDir(async (cwd) => {
+      const { logger, stdout, stderr } = captureConsole();
+
+      const code =
+        'for (let i = 1; i <= 25; i++) process.stderr.write(`line ${i}\\n`);' +
+        'process.stderr.write(`fatal: ${process.argv[1]}\\n`);' +
+        'process.exitCode = 128;';
+      const argv = [process.execPath, '-e', code, 'hunter22'];
+      const cmd = formatCommand(argv).replace('hunter22', '[secure]');
+
+      registerSecrets('hunter22');
       try {
-        runHostCmd(cmd, cwd, logger);
-      } catch {
-        threw = true;
+        await expect(
+          runHostCmd(argv, cwd, logger, { stream: false }),
+        ).rejects.toMatchObject({ status: 128 });
+      } finally {
+        clearSecrets();
       }
 
-      expect(threw).toBe(true);
+      const tail = Array.from({ length: 19 }, (_, i) => `line ${i + 7}`);
       expect(stdout()).toBe(`$ ${cmd}\n`);
+      expect(stderr()).toBe(
+        `Command failed: ${cmd}\nExit code 128\n` +
+          `${[...tail, 'fatal: [secure]'].join('\n')}\n`,
+      );
+    }),
+  );
+
+  it(
+    'masks registered secrets in the logged command and output',
+    withTempDir(async (cwd) => {
+      const { logger, stdout } = captureConsole();
+
+      const code = 'console.log(process.argv[1]);';
+      const argv = [process.execPath, '-e', code, 'hunter22'];
+      const cmd = formatCommand(argv);
+
+      registerSecrets('hunter22');
+      try {
+        expect(await runHostCmd(argv, cwd, logger)).toBe('hunter22');
+      } finally {
+        clearSecrets();
+      }
+      expect(stdout()).toBe(
+        `$ ${cmd.replace('hunter22', '[secure]')}\n[secure]\n`,
+      );
+    }),
+  );
+});
+
+describe('runCommand', () => {
+  it(
+    'passes arguments verbatim, without a shell',
+    withTempDir(async (cwd) => {
+      const arg = `it's "$(touch pwned)" $HOME; exit 3`;
+      const res = await runCommand(
+        [process.execPath, '-e', 'console.log(process.argv[1])', arg],
+        { cwd },
+      );
 
-      const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const pattern = new RegExp(
-        `^` +
-          `Command failed: ${escape(cmd)}\\n` +
-          `out\\n` +
-          `err\\n` +
-          `[\\s\\S]+` + // platform-specific execSync error message
-          `$`,
+      expect(res).toEqual({ stdout: arg, code: 0 });
+      expect(fs.existsSync(path.join(cwd, 'pwned'))).toBe(false);
+      expect(formatCommand(['git', 'commit', `--message=${arg}`])).toBe(
+        `git commit '--message=it'\\''s "$(touch pwned)" $HOME; exit 3'`,
       );
-      expect(stderr()).toMatch(pattern);
+    }),
+  );
+
+  it(
+    'streams each line while the command is still running',
+    withTempDir(async (cwd) => {
+      const seen: Array<{ line: string; at: number }> = [];
+      const code =
+        'console.log("one"); setTimeout(() => console.log("two"), 300);';
+      const res = await runCommand([process.execPath, '-e', code], {
+        cwd,
+        logger: { log: (line) => seen.push({ line, at: Date.now() }) },
+      });
+
+      expect(res).toEqual({ stdout: 'one\ntwo', code: 0 });
+      expect(seen.map((s) => s.line)).toEqual(['one', 'two']);
+      expect(seen[1].at - seen[0].at).toBeGreaterThanOrEqual(200);
+    }),
+  );
+
+  it(
+    'resolves with the exit code when reject is false',
+    withTempDir(async (cwd) => {
+      const code = 'console.log("partial"); process.exitCode = 3;';
+      const res = await runCommand([process.execPath, '-e', code], {
+        cwd,
+        reject: false,
+      });
+
+      expect(res).toEqual({ stdout: 'partial', code: 3 });
+    }),
+  );
+
+  it(
+    'stops commands that exceed the timeout',
+    withTempDir(async (cwd) => {
+      const code = 'setTimeout(() => {}, 30000);';
+      const started = Date.now();
+
+      await expect(
+        runCommand([process.execPath, '-e', code], { cwd, timeout: 200 }),
+      ).rejects.toMatchObject({ code: 'ECOMMANDTIMEOUT' });
+      expect(Date.now() - started).toBeLessThan(5000);
+    }),
+  );
+
+  it(
+    'stops synchronous commands that exceed the timeout',
+    withTempDir(async (cwd) => {
+      const code = 'setTimeout(() => {}, 30000);';
+      const started = Date.now();
+
+      expect(() =>
+        runCommandSync([process.execPath, '-e', code], { cwd, timeout: 200 }),
+      ).toThrow(expect.objectContaining({ code: 'ECOMMANDTIMEOUT' }));
+      expect(Date.now() - started).toBeLessThan(5000);
+      expect(
+        runCommandSync(['cat'], { cwd, input: 'ghcr.io', timeout: 5000 }),
+      ).toBe('ghcr.io');
+    }),
+  );
+
+  it(
+    'stops commands when the signal aborts',
+    withTempDir(async (cwd) => {
+      const code = 'setTimeout(() => {}, 30000);';
+      const controller = new AbortController();
+      const run = runCommand([process.execPath, '-e', code], {
+        cwd,
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 100);
+
+      await expect(run).rejects.toMatchObject({ code: 'ECOMMANDABORTED' });
+      await expect(
+        runCommand(['true'], { cwd, signal: controller.signal }),
+      ).rejects.toMatchObject({ code: 'ECOMMANDABORTED' });
     }),
   );
 });
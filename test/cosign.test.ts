@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { cosignCommands, cosignEnv } from '../src/cosign.js';
+import { HelmConfig } from '../src/plugin-config.js';
+import { withEnv } from './utils/withenv.js';
+
+const DIGEST = `sha256:${'c'.repeat(64)}`;
+const pushed = { ref: 'registry.local:5000/charts/app:1.2.0', digest: DIGEST };
+
+describe('cosignCommands', () => {
+  it('signs and attests the digest reference', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://registry.local:5000/charts',
+      ociInsecure: true,
+      cosign: {
+        keyEnv: 'SIGNING_KEY',
+        attestations: [
+          { predicate: 'sbom/${name}-${version}.spdx.json', type: 'spdxjson' },
+        ],
+      },
+    });
+
+    const commands = withEnv(
+      { OCI_USERNAME: undefined, OCI_PASSWORD: undefined },
+      () => cosignCommands(cfg, { name: 'app', version: '1.2.0' }, pushed),
+    );
+    const common = [
+      '--key=env://SIGNING_KEY',
+      '--yes',
+      '--allow-insecure-registry',
+      '--allow-http-registry',
+    ];
+
+    expect({ commands, env: cosignEnv(cfg) }).toEqual({
+      commands: [
+        ['sign', ...common, `registry.local:5000/charts/app@${DIGEST}`],
+        [
+          'attest',
+          ...common,
+          '--type=spdxjson',
+          '--predicate=sbom/app-1.2.0.spdx.json',
+          `registry.local:5000/charts/app@${DIGEST}`,
+        ],
+      ],
+      env: ['SIGNING_KEY', 'COSIGN_PASSWORD'],
+    });
+  });
+
+  it('keeps registry credentials out of the arguments', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://ghcr.io/org/charts',
+      ociUsername: 'bot',
+      ociPassword: 'token',
+      cosign: {},
+    });
+
+    const [sign] = cosignCommands(
+      cfg,
+      { name: 'app', version: '1.0.0' },
+      pushed,
+    );
+    expect(sign).toEqual([
+      'sign',
+      '--key=env://COSIGN_PRIVATE_KEY',
+      '--yes',
+      `registry.local:5000/charts/app@${DIGEST}`,
+    ]);
+  });
+});
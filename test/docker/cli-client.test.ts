@@ -3,20 +3,16 @@ import {
   buildDockerPull,
   buildDockerRun,
   DockerCliClient,
-  shQuote,
+  Runner,
 } from '../../src/docker/cli-client.js';
+import { clearSecrets } from '../../src/redact.js';
 
 function makeLogger() {
   return { log: () => {}, error: () => {} };
 }
 
-test('shQuote handles spaces and single quotes', () => {
-  expect(shQuote('a b')).toBe("'a b'");
-  expect(shQuote("a'b")).toBe("'a'\\''b'");
-});
-
 test('buildDockerPull returns deterministic pull command', () => {
-  expect(buildDockerPull('img:tag')).toBe('docker pull img:tag');
+  expect(buildDockerPull('img:tag')).toEqual(['docker', 'pull', 'img:tag']);
 });
 
 test('buildDockerRun builds default run command', () => {
@@ -25,19 +21,35 @@ test('buildDockerRun builds default run command', () => {
     mounts: [{ host: '/repo', container: '/apps' }],
     addHosts: ['host.docker.internal:host-gateway'],
   });
-  expect(cmd).toContain('docker run --rm');
-  expect(cmd).toContain('--add-host=host.docker.internal:host-gateway');
-  expect(cmd).toContain('--volume=/repo:/apps');
-  expect(cmd).toContain('--workdir=/apps');
-  expect(cmd).toContain('alpine:3');
-  expect(cmd).toContain("'a b'");
-  expect(cmd).toContain('--flag');
+  expect(cmd).toEqual([
+    'docker',
+    'run',
+    '--rm',
+    '--add-host=host.docker.internal:host-gateway',
+    '--volume=/repo:/apps',
+    '--workdir=/apps',
+    'alpine:3',
+    'echo',
+    'a b',
+    '--flag',
+  ]);
+});
+
+test('buildDockerRun passes environment entries without values by name', () => {
+  const cmd = buildDockerRun('cosign:2', ['sign'], {
+    workdir: '/apps',
+    mounts: [],
+    addHosts: [],
+    env: ['COSIGN_PASSWORD', 'HOME=/tmp'],
+  });
+  expect(cmd).toContain('--env=COSIGN_PASSWORD');
+  expect(cmd).toContain('--env=HOME=/tmp');
 });
 
 test('DockerCliClient.run uses injected runner and returns stdout', async () => {
-  const seen: string[] = [];
-  const runner = (cmd: string) => {
-    seen.push(cmd);
+  const seen: string[][] = [];
+  const runner = (argv: string[]) => {
+    seen.push(argv);
     return { stdout: 'ok' };
   };
   const client = new DockerCliClient(runner);
@@ -48,7 +60,50 @@ test('DockerCliClient.run uses injected runner and returns stdout', async () =>
   });
   expect(res.stdout).toBe('ok');
   expect(seen[0]).toContain('--volume=/repo:/apps');
-  expect(seen[0]).toContain("'hi'");
+  expect(seen[0].slice(-3)).toEqual(['alpine:3', 'echo', 'hi']);
+});
+
+test('DockerCliClient.run keeps secret env values out of command and logs', async () => {
+  const calls: Array<{ argv: string[]; env?: Record<string, string> }> = [];
+  const runner = (
+    argv: string[],
+    _cwd: string,
+    env?: Record<string, string>,
+  ) => {
+    calls.push({ argv, env });
+    return { stdout: 'logged in with s3cr3t-pass' };
+  };
+  const logs: string[] = [];
+  const logger = { log: (m: string) => logs.push(m), error: () => {} };
+  try {
+    await new DockerCliClient(runner).run('helm:3', ['-lc', 'login'], {
+      cwd: '/repo',
+      secretEnv: { OCI_PASSWORD: 's3cr3t-pass' },
+      logger,
+    });
+  } finally {
+    clearSecrets();
+  }
+  expect(calls[0].argv).toContain('--env=OCI_PASSWORD');
+  expect(calls[0].argv.join(' ')).not.toContain('s3cr3t-pass');
+  expect(calls[0].env).toEqual({ OCI_PASSWORD: 's3cr3t-pass' });
+  expect(logs[1]).toBe('logged in with [secure]');
+});
+
+test('DockerCliClient.run masks secret output', async () => {
+  const logs: string[] = [];
+  const logger = { log: (m: string) => logs.push(m), error: () => {} };
+  try {
+    const res = await new DockerCliClient(() => ({ stdout: 'tok3n' })).run(
+      'aws:2',
+      ['ecr', 'get-login-password'],
+      { cwd: '/repo', secretOutput: true, logger },
+    );
+    expect(res.stdout).toBe('tok3n');
+  } finally {
+    clearSecrets();
+  }
+  expect(logs[1]).toBe('[secure]');
 });
 
 test('DockerCliClient.pull maps runner error to SemanticReleaseError', async () => {
@@ -61,3 +116,79 @@ test('DockerCliClient.pull maps runner error to SemanticReleaseError', async ()
     code: 'EIMAGEPULLFAILED',
   });
 });
+
+test('buildDockerRun maps rootless Podman to the host user', () => {
+  const cmd = buildDockerRun('alpine:3', ['true'], {
+    workdir: '/apps',
+    mounts: [{ host: '/repo', container: '/apps' }],
+    addHosts: ['host.docker.internal:host-gateway', 'registry:10.0.0.1'],
+    engine: { name: 'podman', rootless: true },
+  });
+  expect(cmd).toEqual([
+    'podman',
+    'run',
+    '--rm',
+    '--userns=keep-id',
+    '--add-host=registry:10.0.0.1',
+    '--volume=/repo:/apps',
+    '--workdir=/apps',
+    'alpine:3',
+    'true',
+  ]);
+  expect(buildDockerPull('alpine:3', 'nerdctl')).toEqual([
+    'nerdctl',
+    'pull',
+    'alpine:3',
+  ]);
+});
+
+test('DockerCliClient.run runs as the given user with a writable HOME', async () => {
+  const cmds: string[][] = [];
+  const runner = (argv: string[]) => {
+    cmds.push(argv);
+    return { stdout: '' };
+  };
+  const logger = makeLogger();
+  await new DockerCliClient(runner, { name: 'docker' }, '1001:121').run(
+    'alpine/helm:3',
+    ['package', '.'],
+    { cwd: '/repo', logger },
+  );
+  await new DockerCliClient(runner, { name: 'docker' }, null).run(
+    'alpine/helm:3',
+    ['package', '.'],
+    { cwd: '/repo', logger },
+  );
+  expect(cmds[0].slice(0, 4)).toEqual([
+    'docker',
+    'run',
+    '--rm',
+    '--user=1001:121',
+  ]);
+  expect(cmds[0]).toContain('--env=HELM_CACHE_HOME=/tmp/.cache/helm');
+  expect(cmds[0]).toContain('--env=HOME=/tmp');
+  expect(cmds[1].join(' ')).not.toContain('--user');
+  expect(cmds[1]).not.toContain('HOME=');
+});
+
+test('DockerCliClient.run logs streamed lines once and passes limits', async () => {
+  const seen: Array<{ timeout?: number; signal?: AbortSignal }> = [];
+  const runner: Runner = async (_cmd, _cwd, _env, opts) => {
+    seen.push({ timeout: opts?.timeout, signal: opts?.signal });
+    opts?.logger?.log('Pushed: app:1.0.0');
+    return { stdout: 'Digest: sha256:abc', code: 0 };
+  };
+  const logs: string[] = [];
+  const logger = { log: (m: string) => logs.push(m), error: () => {} };
+  const signal = new AbortController().signal;
+  const res = await new DockerCliClient(runner, { name: 'docker' }, null).run(
+    'alpine/helm:3',
+    ['push', 'app.tgz'],
+    { cwd: '/repo', timeout: 1000, signal, logger },
+  );
+  expect({ res, seen, logs: logs.slice(1) }).toEqual({
+    res: { stdout: 'Digest: sha256:abc', code: 0 },
+    seen: [{ timeout: 1000, signal }],
+    logs: ['Pushed: app:1.0.0'],
+  });
+});
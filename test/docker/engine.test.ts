@@ -0,0 +1,44 @@
+import { expect, test } from '@jest/globals';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import { detectEngine } from '../../src/docker/engine.js';
+
+test('detectEngine falls through to the first engine that answers', () => {
+  const cmds: string[][] = [];
+  const engine = detectEngine(
+    ['docker', 'podman', 'nerdctl'],
+    undefined,
+    (argv) => {
+      cmds.push(argv);
+      if (argv[0] === 'docker') throw new Error('not found');
+      return { stdout: argv[1] === 'info' ? 'true\n' : '' };
+    },
+  );
+  expect({ engine, cmds }).toEqual({
+    engine: { name: 'podman', rootless: true },
+    cmds: [
+      ['docker', 'version'],
+      ['podman', 'version'],
+      ['podman', 'info', '--format', '{{.Host.Security.Rootless}}'],
+    ],
+  });
+});
+
+test('detectEngine gives each probe the timeout and stops when one expires', () => {
+  const timeouts: (number | undefined)[] = [];
+  const detect = () =>
+    detectEngine(['docker', 'podman'], 5000, ([name], _cwd, timeout) => {
+      timeouts.push(timeout);
+      if (name === 'docker') {
+        throw new SemanticReleaseError(
+          'Command timed out.',
+          'ECOMMANDTIMEOUT',
+          'docker version did not finish within 5000 ms and was stopped.',
+        );
+      }
+      return { stdout: '' };
+    });
+
+  expect(detect).toThrow(expect.objectContaining({ code: 'ECOMMANDTIMEOUT' }));
+  expect(timeouts).toEqual([5000]);
+});
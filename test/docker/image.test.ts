@@ -7,9 +7,9 @@ function makeLogger() {
 }
 
 test('DockerImage.pullOrThrow delegates to client pull', async () => {
-  const calls: string[] = [];
-  const runner = (cmd: string) => {
-    calls.push(cmd);
+  const calls: string[][] = [];
+  const runner = (argv: string[]) => {
+    calls.push(argv);
     return { stdout: '' };
   };
   const img = new DockerImage(
@@ -19,13 +19,13 @@ test('DockerImage.pullOrThrow delegates to client pull', async () => {
     new DockerCliClient(runner),
   );
   await img.pullOrThrow();
-  expect(calls[0]).toBe('docker pull alpine:3');
+  expect(calls[0]).toEqual(['docker', 'pull', 'alpine:3']);
 });
 
 test('DockerImage.run mounts repo at /apps by default', async () => {
-  const calls: string[] = [];
-  const runner = (cmd: string) => {
-    calls.push(cmd);
+  const calls: string[][] = [];
+  const runner = (argv: string[]) => {
+    calls.push(argv);
     return { stdout: '' };
   };
   const img = new DockerImage(
@@ -36,13 +36,13 @@ test('DockerImage.run mounts repo at /apps by default', async () => {
   );
   await img.run(['echo', 'hi']);
   expect(calls[0]).toContain('--volume=/repo:/apps');
-  expect(calls[0]).toContain("'hi'");
+  expect(calls[0].slice(-2)).toEqual(['echo', 'hi']);
 });
 
 test('DockerImage.shell sets entrypoint and -lc', async () => {
-  const calls: string[] = [];
-  const runner = (cmd: string) => {
-    calls.push(cmd);
+  const calls: string[][] = [];
+  const runner = (argv: string[]) => {
+    calls.push(argv);
     return { stdout: '' };
   };
   const img = new DockerImage(
@@ -54,5 +54,27 @@ test('DockerImage.shell sets entrypoint and -lc', async () => {
   await img.shell('echo 1 && echo 2');
   expect(calls[0]).toContain('--entrypoint=/bin/sh');
   expect(calls[0]).toContain('-lc');
-  expect(calls[0]).toContain("'echo 1 && echo 2'");
+  expect(calls[0].slice(-2)).toEqual(['-lc', 'echo 1 && echo 2']);
+});
+
+test('DockerImage.shell passes arguments as positional parameters', async () => {
+  const calls: string[][] = [];
+  const runner = (argv: string[]) => {
+    calls.push(argv);
+    return { stdout: '' };
+  };
+  const img = new DockerImage(
+    'alpine:3',
+    '/repo',
+    makeLogger(),
+    new DockerCliClient(runner),
+  );
+  await img.shell('exec echo "$@"', ['a b', '$(id)']);
+  expect(calls[0].slice(-5)).toEqual([
+    '-lc',
+    'exec echo "$@"',
+    'sh',
+    'a b',
+    '$(id)',
+  ]);
 });
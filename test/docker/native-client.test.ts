@@ -0,0 +1,118 @@
+import { expect, test } from '@jest/globals';
+import { NativeClient, toHostPaths } from '../../src/docker/native-client.js';
+import { clearSecrets } from '../../src/redact.js';
+
+function makeLogger() {
+  return { log: () => {}, error: () => {} };
+}
+
+test('toHostPaths maps mount targets and directories of same-named files', () => {
+  const mounts = [
+    { host: '/repo', container: '/apps' },
+    {
+      host: '/home/ci/.docker/config.json',
+      container: '/run/helm-registry/config.json',
+    },
+  ];
+  expect(
+    [
+      '/apps',
+      '--cred-file=/apps/key.json',
+      'DOCKER_CONFIG=/run/helm-registry',
+      'cat "/run/helm-registry/config.json"; ls /applications',
+    ].map((t) => toHostPaths(t, mounts)),
+  ).toEqual([
+    '/repo',
+    '--cred-file=/repo/key.json',
+    'DOCKER_CONFIG=/home/ci/.docker',
+    'cat "/home/ci/.docker/config.json"; ls /applications',
+  ]);
+});
+
+test('NativeClient.run runs the host binary in the mapped workdir', async () => {
+  const calls: Array<{ argv: string[]; cwd: string; env?: object }> = [];
+  const client = new NativeClient(
+    { 'alpine/helm:3': 'helm' },
+    (argv, cwd, env) => {
+      calls.push({ argv, cwd, env });
+      return { stdout: 'ok' };
+    },
+  );
+  const res = await client.run('alpine/helm:3', ['lint', 'charts/app'], {
+    cwd: '/repo',
+    env: ['HELM_REGISTRY_CONFIG=/apps/.cfg', 'AWS_REGION'],
+    logger: makeLogger(),
+  });
+  expect({ res, calls }).toEqual({
+    res: { stdout: 'ok', code: 0 },
+    calls: [
+      {
+        argv: ['helm', 'lint', 'charts/app'],
+        cwd: '/repo',
+        env: { HELM_REGISTRY_CONFIG: '/repo/.cfg' },
+      },
+    ],
+  });
+});
+
+test('NativeClient.run isolates registry logins from the runner config', async () => {
+  const seen: Array<Record<string, string> | undefined> = [];
+  const client = new NativeClient({}, (_cmd, _cwd, env) => {
+    seen.push(env);
+    return { stdout: '' };
+  });
+  try {
+    await client.run('oras:1', ['-lc', 'oras login'], {
+      cwd: '/repo',
+      entrypoint: '/bin/sh',
+      secretEnv: { OCI_PASSWORD: 'pw' },
+      logger: makeLogger(),
+    });
+  } finally {
+    clearSecrets();
+  }
+  expect(seen[0]).toEqual({
+    OCI_PASSWORD: 'pw',
+    HELM_REGISTRY_CONFIG: expect.stringMatching(
+      /helm-native-.*registry\.json$/,
+    ),
+    DOCKER_CONFIG: expect.stringMatching(/helm-native-/),
+  });
+});
+
+test('NativeClient.run keeps the runner PATH for shell runs', async () => {
+  const cmds: string[][] = [];
+  const client = new NativeClient({}, (argv) => {
+    cmds.push(argv);
+    return { stdout: '' };
+  });
+  await client.run('oras:1', ['-lc', 'exec oras "$@"', 'sh', 'version'], {
+    cwd: '/repo',
+    entrypoint: '/bin/sh',
+    logger: makeLogger(),
+  });
+  expect(cmds[0]).toEqual(['/bin/sh', '-c', 'exec oras "$@"', 'sh', 'version']);
+});
+
+test('NativeClient.pull checks versions and rejects unknown images', async () => {
+  const cmds: string[][] = [];
+  const client = new NativeClient(
+    { 'helm:3': 'helm', 'docs:1': 'helm-docs' },
+    (argv) => {
+      cmds.push(argv);
+      if (argv[0] === 'helm-docs') throw new Error('not found');
+      return { stdout: 'v3.15.2' };
+    },
+  );
+  await client.pull('helm:3', makeLogger());
+  await expect(client.pull('docs:1', makeLogger())).rejects.toMatchObject({
+    code: 'ENATIVETOOL',
+  });
+  await expect(client.pull('other:1', makeLogger())).rejects.toMatchObject({
+    code: 'ENATIVETOOL',
+  });
+  expect(cmds).toEqual([
+    ['helm', 'version', '--short'],
+    ['helm-docs', '--version'],
+  ]);
+});
@@ -0,0 +1,38 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { packageDownloadUrl } from '../src/download-url.js';
+
+const vars = {
+  name: 'app',
+  version: '1.2.0-rc.1',
+  tag: 'app@1.2.0-rc.1',
+  filename: 'app-1.2.0-rc.1.tgz',
+};
+
+describe('packageDownloadUrl', () => {
+  it('maps each strategy to a download URL', () => {
+    expect({
+      pages: packageDownloadUrl('pages', vars, () => 'org/repo'),
+      release: packageDownloadUrl('github-release', vars, () => 'org/repo'),
+      custom: packageDownloadUrl(
+        'https://cdn.example/${name}/${version}/${filename}?tag=${tag}',
+        vars,
+        () => 'org/repo',
+      ),
+    }).toEqual({
+      pages: undefined,
+      release:
+        'https://github.com/org/repo/releases/download/' +
+        'app@1.2.0-rc.1/app-1.2.0-rc.1.tgz',
+      custom:
+        'https://cdn.example/app/1.2.0-rc.1/app-1.2.0-rc.1.tgz' +
+        '?tag=app@1.2.0-rc.1',
+    });
+  });
+
+  it('only resolves the GitHub repository for release URLs', () => {
+    const repo = jest.fn(() => 'org/repo');
+    packageDownloadUrl('pages', vars, repo);
+    packageDownloadUrl('https://x/${filename}', vars, repo);
+    expect(repo).not.toHaveBeenCalled();
+  });
+});
@@ -131,4 +131,88 @@ describe('HelmChart', () => {
       });
     }),
   );
+
+  /**
+   * Loads default values next to Chart.yaml and reports incompatible
+   * changes against values from an earlier release.
+   */
+  it(
+    'loads values.yaml and diffs it against earlier values',
+    withTempDir((base: string) => {
+      const dir = writeChart(base, 'demo', '1.0.0');
+      fs.writeFileSync(
+        path.join(dir, 'values.yaml'),
+        'image:\n  tag: "1.0"\n',
+        'utf8',
+      );
+      const chart = HelmChart.from(dir).withVersion('1.1.0');
+      expect({
+        values: chart.values(),
+        changes: chart.valuesChangesSince({ image: { tag: '1.0' }, x: 1 }),
+        bare: new HelmChart({ name: 'bare' }).values(),
+      }).toEqual({
+        values: { image: { tag: '1.0' } },
+        changes: [
+          { kind: 'removed', key: 'x', detail: 'key no longer exists' },
+        ],
+        bare: {},
+      });
+    }),
+  );
+
+  /**
+   * Replaces appVersion on a new instance, coercing nothing else and
+   * leaving the original chart untouched.
+   */
+  it(
+    'creates new instance on appVersion change',
+    withTempDir((base: string) => {
+      const c1 = HelmChart.from(
+        writeChart(base, 'demo', '1.0.0', { appVersion: '0.9' }),
+      );
+      const c2 = c1.withVersion('1.1.0').withAppVersion('v1.1.0');
+      expect({
+        old: [c1.version(), c1.appVersion()],
+        newer: [c2.version(), c2.appVersion()],
+      }).toEqual({
+        old: ['1.0.0', '0.9'],
+        newer: ['1.1.0', 'v1.1.0'],
+      });
+    }),
+  );
+
+  /**
+   * Saving a bumped chart rewrites only the changed scalars and keeps
+   * comments, key order and quoting of the original file.
+   */
+  it(
+    'preserves comments and formatting on save',
+    withTempDir((base: string) => {
+      const chartDir = path.join(base, 'demo');
+      fs.mkdirSync(chartDir);
+      const file = path.join(chartDir, 'Chart.yaml');
+      const original = [
+        '# Maintained by the platform team',
+        'apiVersion: v2',
+        'name: demo # keep short',
+        '',
+        "version: '1.0.0'",
+        'appVersion: "0.9"',
+        'description: Demo chart',
+        '',
+      ].join('\n');
+      fs.writeFileSync(file, original, 'utf8');
+
+      HelmChart.from(chartDir)
+        .withVersion('1.1.0')
+        .withAppVersion('1.1')
+        .saveTo(file);
+
+      expect(fs.readFileSync(file, 'utf8')).toBe(
+        original
+          .replace("version: '1.0.0'", "version: '1.1.0'")
+          .replace('appVersion: "0.9"', 'appVersion: "1.1"'),
+      );
+    }),
+  );
 });
@@ -2,7 +2,9 @@ import { expect } from '@jest/globals';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { NativeClient } from '../src/docker/native-client.js';
 import {
+  NativeHelmDocs,
   normalizeReadmeValuesTableContent,
   normalizeReadmeValuesTableFile,
   VALUES_TABLE_TEMPLATE,
@@ -69,3 +71,33 @@ test('normalizeReadmeValuesTableFile updates file in-place when markers exist',
   const after = fs.readFileSync(file, 'utf8');
   expect(after).toContain(VALUES_TABLE_TEMPLATE);
 });
+
+test('NativeHelmDocs runs helm-docs from the repository root within the timeout', async () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'helm-docs-native-'));
+  const calls: Array<{ argv: string[]; cwd: string; timeout?: number }> = [];
+  const client = new NativeClient(
+    { 'helm-docs': 'helm-docs' },
+    (argv, cwd, _env, opts) => {
+      calls.push({ argv, cwd, timeout: opts?.timeout });
+      return { stdout: '' };
+    },
+  );
+
+  await new NativeHelmDocs({ client, timeout: 60000 }).generate(
+    tmp,
+    'charts/app',
+    ['--template-files=README.md'],
+    { log: () => {}, error: () => {} },
+  );
+  expect(calls).toEqual([
+    {
+      argv: [
+        'helm-docs',
+        '--chart-search-root=charts/app',
+        '--template-files=README.md',
+      ],
+      cwd: tmp,
+      timeout: 60000,
+    },
+  ]);
+});
@@ -2,7 +2,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
 import { HelmChart } from '../src/helm-chart.js';
-import { HelmIndex, ChartEntry, HelmIndexDoc } from '../src/helm-index.js';
+import {
+  CHANNEL_ANNOTATION,
+  HelmIndex,
+  ChartEntry,
+  HelmIndexDoc,
+} from '../src/helm-index.js';
 import { jest, describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import { withTempDir } from './utils/tmpdir.js';
 import { sha256OfFile } from './utils/filehash.js';
@@ -315,6 +320,48 @@ describe('HelmIndex', () => {
     }),
   );
 
+  /**
+   * Writes the appVersion of a chart bumped through withAppVersion so the
+   * index reflects the release rather than the stale Chart.yaml value.
+   */
+  it(
+    'reflects appVersion applied with withAppVersion',
+    withTempDir((base: string) => {
+      const idxPath = path.join(base, 'charts', 'index.yaml');
+      const chart = HelmChart.from(
+        writeChartYaml(base, 'api', '1.0.0', { appVersion: '0.1.0' }),
+      )
+        .withVersion('1.1.0')
+        .withAppVersion('v1.1.0');
+      const tgz = writeTgz(base, 'api', '1.1.0', 'q');
+
+      HelmIndex.fromFile(idxPath).append(chart, tgz, '').writeTo(idxPath);
+
+      expect(readIndex(idxPath).entries.api).toEqual([
+        expect.objectContaining({ version: '1.1.0', appVersion: 'v1.1.0' }),
+      ]);
+    }),
+  );
+
+  /**
+   * Looks up the digest of a parsed entry, for the immutable publish check.
+   */
+  it(
+    'returns the digest of a parsed entry',
+    withTempDir((base: string) => {
+      const chart = HelmChart.from(writeChartYaml(base, 'api', '2.0.0'));
+      const tgz = writeTgz(base, 'api', '2.0.0', 'z');
+      const idxPath = path.join(base, 'index.yaml');
+      HelmIndex.empty().append(chart, tgz, '').writeTo(idxPath);
+
+      const parsed = HelmIndex.parse(fs.readFileSync(idxPath, 'utf8'));
+      expect({
+        known: parsed.digestOf('api', '2.0.0'),
+        unknown: parsed.digestOf('api', '2.0.1'),
+      }).toEqual({ known: sha256OfFile(tgz), unknown: undefined });
+    }),
+  );
+
   /**
    * Ensures Chart.yaml cannot override reserved fields that are computed at
    * index time, including urls, digest, and created timestamp.
@@ -393,4 +440,42 @@ describe('HelmIndex', () => {
       expect(second).toEqual(first);
     }),
   );
+
+  /**
+   * Records the release channel as an entry annotation next to the
+   * chart's own annotations, and removes it again on promotion to the
+   * default channel. Unknown versions leave the index untouched.
+   */
+  it(
+    'annotates entries with their release channel',
+    withTempDir((base: string) => {
+      const idxPath = path.join(base, 'index.yaml');
+      const chart = HelmChart.from(
+        writeChartYaml(base, 'app', '2.0.0-beta.1', {
+          annotations: { category: 'demo' },
+        }),
+      );
+      const tgz = writeTgz(base, 'app', '2.0.0-beta.1', 'b');
+
+      const beta = HelmIndex.empty()
+        .append(chart, tgz, '')
+        .withChannel('app', '2.0.0-beta.1', 'beta')
+        .withChannel('app', '9.9.9', 'beta');
+      beta.writeTo(idxPath);
+      const annotated = readIndex(idxPath).entries.app[0].annotations;
+
+      beta.withChannel('app', '2.0.0-beta.1').writeTo(idxPath);
+      const promoted = readIndex(idxPath).entries.app[0].annotations;
+
+      expect({
+        annotated,
+        promoted,
+        has: [beta.has('app', '2.0.0-beta.1'), beta.has('app', '9.9.9')],
+      }).toEqual({
+        annotated: { category: 'demo', [CHANNEL_ANNOTATION]: 'beta' },
+        promoted: { category: 'demo' },
+        has: [true, false],
+      });
+    }),
+  );
 });
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import { readPackagedChartYaml, readTgzFiles } from '../src/helm-package.js';
+import { HelmChart } from '../src/helm-chart.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+/**
+ * Write files below `base/src` and archive them like `helm package`
+ * does, with the chart directory at the archive root.
+ */
+function makeTgz(
+  base: string,
+  files: Record<string, string>,
+  format = 'gnu',
+): string {
+  const src = path.join(base, 'src');
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(src, file)), { recursive: true });
+    fs.writeFileSync(path.join(src, file), content, 'utf8');
+  }
+  const tgz = path.join(base, 'out.tgz');
+  execSync(`tar --format=${format} -czf "${tgz}" -C "${src}" .`);
+  return tgz;
+}
+
+describe('readTgzFiles', () => {
+  it.each(['gnu', 'pax', 'ustar'])(
+    'lists files of a %s archive including long names',
+    (format) =>
+      withTempDir((base: string) => {
+        const long = `app/templates/${'x'.repeat(80)}/${'y'.repeat(40)}.yaml`;
+        const tgz = makeTgz(
+          base,
+          { 'app/Chart.yaml': 'name: app\n', [long]: 'kind: Pod\n' },
+          format,
+        );
+
+        const files = readTgzFiles(tgz);
+        const names = [...files.keys()].map((n) => n.replace(/^\.\//, ''));
+        expect(names.sort()).toEqual(['app/Chart.yaml', long].sort());
+      })(),
+  );
+});
+
+describe('readPackagedChartYaml', () => {
+  it(
+    'reads the top-level Chart.yaml and ignores subcharts',
+    withTempDir((base: string) => {
+      const tgz = makeTgz(base, {
+        'app/charts/sub/Chart.yaml': 'name: sub\nversion: 0.1.0\n',
+        'app/Chart.yaml': 'name: app\nversion: 1.2.0-rc.1+build.7\n',
+      });
+
+      const chart = HelmChart.fromPackage(tgz);
+      expect({
+        text: readPackagedChartYaml(tgz),
+        name: chart.name(),
+        version: chart.version(),
+      }).toEqual({
+        text: 'name: app\nversion: 1.2.0-rc.1+build.7\n',
+        name: 'app',
+        version: '1.2.0-rc.1+build.7',
+      });
+    }),
+  );
+
+  it(
+    'rejects archives without a chart',
+    withTempDir((base: string) => {
+      const tgz = makeTgz(base, { 'README.md': '# none\n' });
+      expect(readPackagedChartYaml(tgz)).toBeUndefined();
+      expect(() => HelmChart.fromPackage(tgz)).toThrow(/No Chart.yaml/);
+    }),
+  );
+});
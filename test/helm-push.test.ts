@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  channelTag,
+  chartReference,
+  digestReference,
+  ociTag,
+  parseHelmPushOutput,
+} from '../src/helm-push.js';
+
+const DIGEST_A = `sha256:${'a'.repeat(64)}`;
+const DIGEST_B = `sha256:${'b'.repeat(64)}`;
+
+describe('parseHelmPushOutput', () => {
+  it('pairs pushed references with their digests in order', () => {
+    const output = [
+      'Login Succeeded',
+      'Pushed: ghcr.io/org/charts/app:1.0.0',
+      `Digest: ${DIGEST_A}`,
+      'Pushed: localhost:5000/charts/worker:1.0.0_build.1',
+      `Digest: ${DIGEST_B}`,
+      'Pushed: ghcr.io/org/charts/broken:1.0.0',
+    ].join('\n');
+
+    expect(parseHelmPushOutput(output)).toEqual([
+      { ref: 'ghcr.io/org/charts/app:1.0.0', digest: DIGEST_A },
+      { ref: 'localhost:5000/charts/worker:1.0.0_build.1', digest: DIGEST_B },
+    ]);
+  });
+});
+
+describe('digestReference', () => {
+  it('replaces the tag with the digest, keeping registry ports', () => {
+    expect(
+      digestReference({
+        ref: 'localhost:5000/charts/app:1.0.0',
+        digest: DIGEST_A,
+      }),
+    ).toBe(`localhost:5000/charts/app@${DIGEST_A}`);
+  });
+});
+
+describe('chartReference', () => {
+  it('uses the tag Helm pushes for versions with build metadata', () => {
+    expect(ociTag('1.0.0+build.1')).toBe('1.0.0_build.1');
+    expect(
+      chartReference('localhost:5000/charts', 'app', '1.0.0+build.1'),
+    ).toBe('localhost:5000/charts/app:1.0.0_build.1');
+  });
+});
+
+describe('channelTag', () => {
+  it('tags the default channel latest and other channels by name', () => {
+    expect(channelTag(undefined)).toBe('latest');
+    expect(channelTag('beta')).toBe('beta');
+  });
+});
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect } from '@jest/globals';
+import { HelmConfig } from '../src/plugin-config.js';
+import { removeSigningFiles, writeSigningFiles } from '../src/helm-signing.js';
+import { withTempDir } from './utils/tmpdir.js';
+import { withEnv } from './utils/withenv.js';
+
+describe('writeSigningFiles', () => {
+  it(
+    'stages a keyring file with owner-only permissions',
+    withTempDir((base: string) => {
+      fs.writeFileSync(path.join(base, 'ring.gpg'), 'keyring-bytes');
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        sign: { key: 'bot@example.com', keyring: 'ring.gpg' },
+      });
+
+      const { dir, args, options } = withEnv(
+        { HELM_SIGN_PASSPHRASE: undefined },
+        () => writeSigningFiles(cfg, base),
+      );
+      const staged = path.join(dir, 'secring.gpg');
+
+      expect({
+        outside: path.relative(base, dir).startsWith('..'),
+        args,
+        options,
+        content: fs.readFileSync(staged, 'utf8'),
+        mode: fs.statSync(staged).mode & 0o777,
+      }).toEqual({
+        outside: true,
+        args: [
+          '--sign',
+          '--key=bot@example.com',
+          '--keyring=/run/helm-signing/secring.gpg',
+        ],
+        options: {
+          mounts: [
+            { host: base, container: '/apps', readonly: false },
+            { host: dir, container: '/run/helm-signing', readonly: true },
+          ],
+        },
+        content: 'keyring-bytes',
+        mode: 0o600,
+      });
+      removeSigningFiles(dir);
+    }),
+  );
+
+  it(
+    'decodes a base64 keyring and passes the passphrase as a file',
+    withTempDir((base: string) => {
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        sign: {
+          key: 'bot',
+          keyringBase64: Buffer.from('decoded').toString('base64'),
+          passphrase: 'p@ss',
+        },
+      });
+
+      const { dir, args } = writeSigningFiles(cfg, base);
+
+      expect({
+        args: args.slice(-1),
+        keyring: fs.readFileSync(path.join(dir, 'secring.gpg'), 'utf8'),
+        passphrase: fs.readFileSync(path.join(dir, 'passphrase'), 'utf8'),
+      }).toEqual({
+        args: ['--passphrase-file=/run/helm-signing/passphrase'],
+        keyring: 'decoded',
+        passphrase: 'p@ss',
+      });
+
+      removeSigningFiles(dir);
+      expect(fs.existsSync(dir)).toBe(false);
+    }),
+  );
+});
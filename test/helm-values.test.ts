@@ -0,0 +1,117 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseSchema,
+  parseValues,
+  diffValues,
+  schemaTightenings,
+  valueLeaves,
+} from '../src/helm-values.js';
+
+describe('values helpers', () => {
+  it('parses values and tolerates empty or scalar documents', () => {
+    expect({
+      map: parseValues('image:\n  tag: "1.0"\n'),
+      empty: parseValues(''),
+      absent: parseValues(undefined),
+      scalar: parseValues('just text'),
+    }).toEqual({
+      map: { image: { tag: '1.0' } },
+      empty: {},
+      absent: {},
+      scalar: {},
+    });
+  });
+
+  it('flattens nested maps into dotted leaves', () => {
+    const leaves = valueLeaves({
+      image: { repository: 'nginx', tag: '1.0' },
+      podAnnotations: {},
+      args: ['a'],
+    });
+    expect([...leaves.keys()]).toEqual([
+      'image.repository',
+      'image.tag',
+      'podAnnotations',
+      'args',
+    ]);
+  });
+
+  it('reports removed, retyped and renamed keys but not additions', () => {
+    const before = {
+      image: { repository: 'nginx', tag: '1.0', pullPolicy: 'Always' },
+      podAnnotations: {},
+      replicas: 1,
+      ports: [80],
+      resources: null,
+      enabled: true,
+    };
+    const after = {
+      image: { repository: 'nginx', tag: '2.0' },
+      podAnnotations: { a: 'b' },
+      replicas: '1',
+      ports: [80],
+      resources: { limits: { cpu: '1' } },
+      imagePullPolicy: 'Always',
+    };
+    expect(diffValues(before, after)).toEqual([
+      { kind: 'removed', key: 'enabled', detail: 'key no longer exists' },
+      {
+        kind: 'renamed',
+        key: 'image.pullPolicy',
+        detail: 'moved to imagePullPolicy',
+      },
+      { kind: 'type-changed', key: 'replicas', detail: 'number -> string' },
+    ]);
+    expect(diffValues(after, after)).toEqual([]);
+  });
+});
+
+describe('schemaTightenings', () => {
+  it('detects required keys, closed objects and narrowed types', () => {
+    const before = parseSchema(
+      JSON.stringify({
+        type: 'object',
+        properties: {
+          replicas: { type: ['integer', 'string'], minimum: 0 },
+          mode: { enum: ['a', 'b'] },
+          legacy: { type: 'string' },
+        },
+      }),
+    );
+    const after = parseSchema(
+      JSON.stringify({
+        type: 'object',
+        required: ['replicas'],
+        additionalProperties: false,
+        properties: {
+          replicas: { type: 'integer', minimum: 1 },
+          mode: { enum: ['a'] },
+        },
+      }),
+    );
+
+    expect(schemaTightenings(before, after)).toEqual([
+      '#: "replicas" became required',
+      '#: additional properties are no longer allowed',
+      '#: property "legacy" was removed',
+      '#/properties/replicas: type narrowed to integer',
+      '#/properties/replicas: minimum raised to 1',
+      '#/properties/mode: allowed values narrowed',
+    ]);
+  });
+
+  it('ignores loosening changes and tolerates invalid JSON', () => {
+    const strict = {
+      type: 'object',
+      required: ['a'],
+      properties: { a: { type: 'string', maxLength: 5 } },
+    };
+    const loose = {
+      type: 'object',
+      properties: { a: { type: ['string', 'null'], maxLength: 10 }, b: {} },
+    };
+
+    expect(schemaTightenings(strict, loose)).toEqual([]);
+    expect(parseSchema('{not json')).toEqual({});
+  });
+});
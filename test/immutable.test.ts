@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  decodePublishedManifest,
+  fetchPublishedManifest,
+  isAlreadyPublished,
+} from '../src/immutable.js';
+
+const chart = { name: 'app', version: '1.0.0' };
+const digest = (c: string) => `sha256:${c.repeat(64)}`;
+
+describe('isAlreadyPublished', () => {
+  it('allows new versions and skips identical ones', () => {
+    expect([
+      isAlreadyPublished('index.yaml', chart, undefined, digest('a')),
+      isAlreadyPublished('index.yaml', chart, 'a'.repeat(64), digest('a')),
+    ]).toEqual([false, true]);
+  });
+
+  it('rejects versions published with other content', () => {
+    expect(() =>
+      isAlreadyPublished('oci://ghcr.io/org', chart, digest('b'), digest('a')),
+    ).toThrow(expect.objectContaining({ code: 'EVERSIONEXISTS' }));
+  });
+});
+
+describe('decodePublishedManifest', () => {
+  it('computes the manifest digest and finds the chart layer', () => {
+    const manifest = JSON.stringify({
+      layers: [
+        {
+          mediaType: 'application/vnd.cncf.helm.chart.content.v1.tar+gzip',
+          digest: digest('c'),
+        },
+      ],
+    });
+    const encoded = Buffer.from(manifest).toString('base64');
+
+    expect([
+      decodePublishedManifest(`${encoded}\n`),
+      decodePublishedManifest(''),
+    ]).toEqual([
+      {
+        digest: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+        layerDigest: digest('c'),
+      },
+      undefined,
+    ]);
+  });
+});
+
+describe('fetchPublishedManifest', () => {
+  const failing = (status: number, stderr: string) => async () => {
+    throw Object.assign(new Error('Command failed'), { status, stderr });
+  };
+
+  it('treats only a missing reference as not published', async () => {
+    await expect(
+      fetchPublishedManifest(
+        'r/app:1.0.0',
+        failing(1, 'Error: r/app:1.0.0: not found'),
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      fetchPublishedManifest(
+        'r/app:1.0.0',
+        failing(1, 'Error: response status code 401: unauthorized'),
+      ),
+    ).rejects.toMatchObject({ code: 'EOCILOOKUP' });
+    await expect(
+      fetchPublishedManifest(
+        'r/app:1.0.0',
+        failing(127, 'sh: oras: not found'),
+      ),
+    ).rejects.toMatchObject({ code: 'EOCILOOKUP' });
+  });
+});
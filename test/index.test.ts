@@ -16,7 +16,12 @@ import { GenericContainer, StartedTestContainer, Wait } from 'testcontainers';
 import * as yaml from 'yaml';
 
 // noinspection ES6PreferShortImport
-import { verifyConditions, prepare, publish } from '../src/index.js';
+import {
+  verifyConditions,
+  prepare,
+  publish,
+  addChannel,
+} from '../src/index.js';
 import type {
   VerifyConditionsContext,
   PrepareContext,
@@ -111,6 +116,36 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
     await expect(verifyConditions(cfg, ctx)).resolves.toBeUndefined();
   }, 120_000);
 
+  it('verifyConditions reaches the local OCI registry', async () => {
+    const cfg: HelmPluginConfig = {
+      chartPath: chartPathInWorkdir,
+      helmImage: HELM_IMAGE,
+      docsImage: DOCS_IMAGE,
+      ociRepo: `oci://host.docker.internal:${registryPort}/charts`,
+      ociInsecure: true,
+      ghPages: { enabled: false },
+    };
+    const ctx = { logger, cwd: workdir } as unknown as VerifyConditionsContext;
+
+    await expect(verifyConditions(cfg, ctx)).resolves.toBeUndefined();
+  }, 120_000);
+
+  it('verifyConditions fails with EOCIUNREACHABLE for a closed port', async () => {
+    const cfg: HelmPluginConfig = {
+      chartPath: chartPathInWorkdir,
+      helmImage: HELM_IMAGE,
+      docsImage: DOCS_IMAGE,
+      ociRepo: 'oci://host.docker.internal:1/charts',
+      ociInsecure: true,
+      ghPages: { enabled: false },
+    };
+    const ctx = { logger, cwd: workdir } as unknown as VerifyConditionsContext;
+
+    await expect(verifyConditions(cfg, ctx)).rejects.toMatchObject({
+      code: 'EOCIUNREACHABLE',
+    });
+  }, 120_000);
+
   it('prepare packages chart (no index.yaml yet)', async () => {
     const cfg: HelmPluginConfig = {
       chartPath: chartPathInWorkdir,
@@ -169,13 +204,119 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
     };
     const pubCtx = { logger, cwd: workdir } as unknown as PublishContext;
 
-    await expect(publish(pubCfg, pubCtx)).resolves.toBeUndefined();
+    await expect(publish(pubCfg, pubCtx)).resolves.toMatchObject({
+      artifacts: [
+        expect.objectContaining({
+          target: 'oci',
+          digest: expect.stringMatching(/^sha256:/),
+        }),
+      ],
+    });
 
     const dist = path.join(workdir, 'dist', 'charts');
     const files = fs.readdirSync(dist);
     expect(files.some((f) => f.endsWith('.tgz'))).toBe(true);
   }, 240_000);
 
+  it('publish and addChannel tag the Helm tag of versions with build metadata', async () => {
+    const version = '0.4.0+build.1';
+    await prepare(
+      {
+        chartPath: chartPathInWorkdir,
+        helmImage: HELM_IMAGE,
+        docsImage: DOCS_IMAGE,
+        ghPages: { enabled: false },
+      },
+      {
+        logger,
+        cwd: workdir,
+        nextRelease: { version },
+      } as unknown as PrepareContext,
+    );
+
+    const cfg: HelmPluginConfig = {
+      chartPath: chartPathInWorkdir,
+      helmImage: HELM_IMAGE,
+      docsImage: DOCS_IMAGE,
+      ociRepo: `oci://host.docker.internal:${registryPort}/charts`,
+      ociInsecure: true,
+      ghPages: { enabled: false },
+    };
+    const tags = async (): Promise<string[]> => {
+      const res = await fetch(
+        `http://localhost:${registryPort}/v2/charts/app/tags/list`,
+      );
+      return ((await res.json()) as { tags: string[] }).tags;
+    };
+
+    await publish(cfg, {
+      logger,
+      cwd: workdir,
+      nextRelease: { version },
+    } as unknown as PublishContext);
+    expect(await tags()).toEqual(
+      expect.arrayContaining(['0.4.0_build.1', 'latest']),
+    );
+
+    await addChannel(cfg, {
+      logger,
+      cwd: workdir,
+      nextRelease: { version, channel: 'beta' },
+    } as unknown as Parameters<typeof addChannel>[1]);
+    expect(await tags()).toEqual(
+      expect.arrayContaining(['0.4.0_build.1', 'latest', 'beta']),
+    );
+  }, 240_000);
+
+  it('publish pushes to every ociRepos target and reports the failing one', async () => {
+    await prepare(
+      {
+        chartPath: chartPathInWorkdir,
+        helmImage: HELM_IMAGE,
+        docsImage: DOCS_IMAGE,
+        ghPages: { enabled: false },
+      },
+      {
+        logger,
+        cwd: workdir,
+        nextRelease: { version: '0.3.1' },
+      } as unknown as PrepareContext,
+    );
+
+    const logs: string[] = [];
+    const pubCfg: HelmPluginConfig = {
+      chartPath: chartPathInWorkdir,
+      helmImage: HELM_IMAGE,
+      docsImage: DOCS_IMAGE,
+      ociRepos: [
+        { repo: 'oci://host.docker.internal:1/charts', insecure: true },
+        {
+          repo: `oci://host.docker.internal:${registryPort}/mirror`,
+          insecure: true,
+        },
+      ],
+      ghPages: { enabled: false },
+    };
+    const pubCtx = {
+      logger: { log: (m: string) => logs.push(m), error: () => {} },
+      cwd: workdir,
+    } as unknown as PublishContext;
+
+    await expect(publish(pubCfg, pubCtx)).rejects.toMatchObject({
+      code: 'EOCITARGET',
+    });
+    const targets = logs
+      .filter((m) => m.includes('"targets"'))
+      .map((m) => JSON.parse(m) as { helm: { targets: unknown } });
+    expect(targets[0].helm.targets).toEqual([
+      expect.objectContaining({ published: false }),
+      {
+        repo: `oci://host.docker.internal:${registryPort}/mirror`,
+        published: true,
+      },
+    ]);
+  }, 240_000);
+
   it('publish pushes to local OCI only (insecure, with credentials, gh-pages disabled)', async () => {
     const prepCfg: HelmPluginConfig = {
       chartPath: chartPathInWorkdir,
@@ -205,7 +346,14 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
     };
     const pubCtx = { logger, cwd: workdir } as unknown as PublishContext;
 
-    await expect(publish(pubCfg, pubCtx)).resolves.toBeUndefined();
+    await expect(publish(pubCfg, pubCtx)).resolves.toMatchObject({
+      artifacts: [
+        expect.objectContaining({
+          target: 'oci',
+          digest: expect.stringMatching(/^sha256:/),
+        }),
+      ],
+    });
 
     const dist = path.join(workdir, 'dist', 'charts');
     const files = fs.readdirSync(dist);
@@ -249,7 +397,9 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
     };
     const pubCtx = { logger, cwd: workdir } as unknown as PublishContext;
 
-    await expect(publish(pubCfg, pubCtx)).resolves.toBeUndefined();
+    await expect(publish(pubCfg, pubCtx)).resolves.toMatchObject({
+      artifacts: expect.any(Array),
+    });
 
     const branches = execSync('git branch --list', {
       cwd: workdir,
@@ -415,7 +565,7 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
         },
         { logger, cwd: workdir } as unknown as PublishContext,
       ),
-    ).resolves.toBeUndefined();
+    ).resolves.toMatchObject({ artifacts: expect.any(Array) });
 
     const checkDir = path.join(workdir, '.check-both');
     fs.mkdirSync(checkDir, { recursive: true });
@@ -580,6 +730,68 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
     );
   }, 300_000);
 
+  it('publish releases every chart matched by charts in one gh-pages commit', async () => {
+    const secondChart = path.join(workdir, 'worker');
+    fs.cpSync(path.join(workdir, 'app'), secondChart, { recursive: true });
+    const secondYaml = path.join(secondChart, 'Chart.yaml');
+    fs.writeFileSync(
+      secondYaml,
+      fs.readFileSync(secondYaml, 'utf8').replace(/^name:.*$/m, 'name: worker'),
+      'utf8',
+    );
+
+    execSync('git init -b main', { cwd: workdir });
+    execSync('git config user.email "ci@example.com"', { cwd: workdir });
+    execSync('git config user.name "CI Tester"', { cwd: workdir });
+    execSync('git add .', { cwd: workdir });
+    execSync('git commit -m "init repo for multi-chart test"', {
+      cwd: workdir,
+    });
+
+    const remoteDir = path.join(workdir, '.remote.git');
+    execSync(`git init --bare "${remoteDir}"`);
+    execSync(`git remote add origin "${remoteDir}"`, { cwd: workdir });
+    execSync('git push -u origin main', { cwd: workdir });
+
+    const cfg: HelmPluginConfig = {
+      charts: ['app', 'worker'],
+      helmImage: HELM_IMAGE,
+      docsImage: DOCS_IMAGE,
+      ghPages: { enabled: true, branch: 'gh-pages' },
+    };
+
+    await verifyConditions(cfg, {
+      logger,
+      cwd: workdir,
+    } as unknown as VerifyConditionsContext);
+    await prepare(cfg, {
+      logger,
+      cwd: workdir,
+      nextRelease: { version: '5.0.0' },
+    } as unknown as PrepareContext);
+    await publish(cfg, { logger, cwd: workdir } as unknown as PublishContext);
+
+    const commits = execSync('git rev-list --count origin/gh-pages', {
+      cwd: workdir,
+    })
+      .toString('utf8')
+      .trim();
+    expect(commits).toBe('1');
+
+    const checkDir = path.join(workdir, '.check-multi');
+    execSync(`git -C "${workdir}" worktree add "${checkDir}" gh-pages`);
+    const parsed = yaml.parse(
+      fs.readFileSync(path.join(checkDir, 'index.yaml'), 'utf8'),
+    ) as {
+      entries: Record<string, Array<{ name: string; version: string }>>;
+    };
+
+    expect(Object.keys(parsed.entries).sort()).toEqual(['app', 'worker']);
+    expect(parsed.entries.worker).toEqual([
+      expect.objectContaining({ name: 'worker', version: '5.0.0' }),
+    ]);
+  }, 300_000);
+
   describe.each([
     { seed: 'remote', urlMode: 'absolute' },
     { seed: 'remote', urlMode: 'relative' },
@@ -681,7 +893,7 @@ describe('semantic-release-helm (integration, real Docker + local git)', () => {
             },
             { logger, cwd: workdir } as unknown as PublishContext,
           ),
-        ).resolves.toBeUndefined();
+        ).resolves.toMatchObject({ artifacts: expect.any(Array) });
 
         const lsRemote = execSync('git ls-remote --heads origin gh-pages', {
           cwd: workdir,
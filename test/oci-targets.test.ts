@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import { HelmConfig } from '../src/plugin-config.js';
+import { forEachOciTarget, throwTargetFailures } from '../src/oci-targets.js';
+
+const logger = { log: () => {}, error: () => {} };
+const cfg = new HelmConfig({
+  chartPath: 'x',
+  ociRepos: [
+    { repo: 'oci://ghcr.io/org/charts' },
+    { repo: 'oci://harbor.local/charts' },
+    { repo: 'oci://mirror.local/charts' },
+  ],
+});
+
+describe('forEachOciTarget', () => {
+  it('keeps going after a failing target and names it', async () => {
+    const results = await forEachOciTarget(
+      cfg.getOciTargets(),
+      async (target) => {
+        if (target.getOciHost() === 'harbor.local') {
+          throw new Error('connection refused');
+        }
+        return target.getOciHost();
+      },
+      logger,
+    );
+
+    expect(results).toEqual([
+      { repo: 'oci://ghcr.io/org/charts', value: 'ghcr.io' },
+      {
+        repo: 'oci://harbor.local/charts',
+        error: expect.objectContaining({
+          code: 'EOCITARGET',
+          details: 'oci://harbor.local/charts: connection refused',
+        }),
+      },
+      { repo: 'oci://mirror.local/charts', value: 'mirror.local' },
+    ]);
+  });
+});
+
+describe('throwTargetFailures', () => {
+  const conflict = new SemanticReleaseError(
+    'Chart version already published.',
+    'EVERSIONEXISTS',
+  );
+
+  it('throws a single failure as is and several together', () => {
+    const ok = { repo: 'oci://a/charts', value: 1 };
+    expect(() => throwTargetFailures([ok])).not.toThrow();
+    expect(() =>
+      throwTargetFailures([ok, { repo: 'oci://b/charts', error: conflict }]),
+    ).toThrow(conflict);
+
+    let thrown: unknown;
+    try {
+      throwTargetFailures([
+        { repo: 'oci://a/charts', error: conflict },
+        { repo: 'oci://b/charts', error: conflict },
+      ]);
+    } catch (err: unknown) {
+      thrown = err;
+    }
+    expect(thrown).toBeInstanceOf(AggregateError);
+    expect((thrown as AggregateError).errors).toEqual([conflict, conflict]);
+  });
+});
@@ -24,8 +24,6 @@ describe('HelmConfig', () => {
         host: cfg.getOciHost(),
         port: cfg.getOciPort(),
         hostPort: cfg.getOciHostPort(),
-        plainHttpFlag: cfg.getOciPlainHttpFlag(),
-        insecureLoginFlag: cfg.getOciInsecureLoginFlag(),
         username: cfg.getOciUsername(),
         password: cfg.getOciPassword(),
         hasUser: cfg.hasOciUser(),
@@ -49,8 +47,6 @@ describe('HelmConfig', () => {
         host: undefined,
         port: undefined,
         hostPort: undefined,
-        plainHttpFlag: '',
-        insecureLoginFlag: '',
         username: undefined,
         password: undefined,
         hasUser: false,
@@ -115,8 +111,6 @@ describe('HelmConfig', () => {
       host: cfg.getOciHost(),
       port: cfg.getOciPort(),
       hostPort: cfg.getOciHostPort(),
-      plainHttpFlag: cfg.getOciPlainHttpFlag(),
-      insecureLoginFlag: cfg.getOciInsecureLoginFlag(),
     }).toEqual({
       enabled: true,
       repo: 'oci://ghcr.io/my-org/helm',
@@ -124,8 +118,6 @@ describe('HelmConfig', () => {
       host: 'ghcr.io',
       port: undefined,
       hostPort: 'ghcr.io',
-      plainHttpFlag: '',
-      insecureLoginFlag: '',
     });
   });
 
@@ -146,22 +138,14 @@ describe('HelmConfig', () => {
     });
   });
 
-  it('oci: insecure flags when ociInsecure=true', () => {
+  it('oci: insecure when ociInsecure=true', () => {
     const cfg = new HelmConfig({
       chartPath: 'x',
       ociRepo: 'oci://ghcr.io/my-org/helm',
       ociInsecure: true,
     } as HelmPluginConfig);
 
-    expect({
-      insecure: cfg.getOciInsecure(),
-      plainHttpFlag: cfg.getOciPlainHttpFlag(),
-      insecureLoginFlag: cfg.getOciInsecureLoginFlag(),
-    }).toEqual({
-      insecure: true,
-      plainHttpFlag: ' --plain-http',
-      insecureLoginFlag: ' --insecure',
-    });
+    expect(cfg.getOciInsecure()).toBe(true);
   });
 
   it('creds: prefer config-provided username/password', () => {
@@ -241,4 +225,213 @@ describe('HelmConfig', () => {
       ociRepo: 'oci://registry.acme.io/acme/svc',
     });
   });
+
+  it('charts: string and array patterns enable multi-chart mode', () => {
+    const single = new HelmConfig({ charts: 'charts/*' } as HelmPluginConfig);
+    const multi = new HelmConfig({
+      chartPath: 'ignored',
+      charts: ['charts/*', '', 'deploy/app'],
+    } as HelmPluginConfig);
+    const legacy = new HelmConfig({ chartPath: 'charts/app' });
+
+    expect({
+      single: [single.isMultiChart(), single.getChartPatterns()],
+      multi: [multi.isMultiChart(), multi.getChartPatterns()],
+      legacy: [legacy.isMultiChart(), legacy.getChartPaths('/nowhere')],
+    }).toEqual({
+      single: [true, ['charts/*']],
+      multi: [true, ['charts/*', 'deploy/app']],
+      legacy: [false, ['charts/app']],
+    });
+  });
+
+  it('versioning: lockstep by default, independent with commit match', () => {
+    const lockstep = new HelmConfig({ chartPath: 'x' });
+    const independent = new HelmConfig({
+      charts: 'charts/*',
+      versioning: 'independent',
+      commitMatch: 'scope',
+    });
+
+    expect({
+      lockstep: [lockstep.isIndependentVersioning(), lockstep.getCommitMatch()],
+      independent: [
+        independent.isIndependentVersioning(),
+        independent.getCommitMatch(),
+      ],
+    }).toEqual({
+      lockstep: [false, 'any'],
+      independent: [true, 'scope'],
+    });
+  });
+
+  it('appVersion: false and absent disable it, other sources pass through', () => {
+    const source = (appVersion?: HelmPluginConfig['appVersion']) =>
+      new HelmConfig({ chartPath: 'x', appVersion }).getAppVersionSource();
+
+    expect([
+      source(),
+      source(false),
+      source(true),
+      source('v${version}'),
+      source({ file: 'VERSION' }),
+    ]).toEqual([
+      undefined,
+      undefined,
+      true,
+      'v${version}',
+      { file: 'VERSION' },
+    ]);
+  });
+
+  it('valuesUpdates: expands string shorthands and applies defaults', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      valuesUpdates: [
+        'image.tag',
+        { path: 'sidecar.image.tag', value: 'v${appVersion}', file: 'a.yaml' },
+      ],
+    });
+
+    expect({
+      none: new HelmConfig({ chartPath: 'x' }).getValuesUpdates(),
+      some: cfg.getValuesUpdates(),
+    }).toEqual({
+      none: [],
+      some: [
+        { path: 'image.tag', value: '${version}', file: 'values.yaml' },
+        { path: 'sidecar.image.tag', value: 'v${appVersion}', file: 'a.yaml' },
+      ],
+    });
+  });
+
+  it('routes prereleases to the prerelease branch and index when set', () => {
+    const plain = new HelmConfig({ chartPath: 'x' });
+    const split = new HelmConfig({
+      chartPath: 'x',
+      ghPages: {
+        branch: 'pages',
+        prereleaseBranch: 'pages-next',
+        prereleaseIndex: './prerelease/',
+      },
+    });
+
+    expect({
+      plain: [
+        plain.getGhBranchFor(true),
+        plain.getGhIndexFileFor(true),
+        plain.getOrasImage(),
+      ],
+      stable: [split.getGhBranchFor(false), split.getGhIndexFileFor(false)],
+      prerelease: [split.getGhBranchFor(true), split.getGhIndexFileFor(true)],
+    }).toEqual({
+      plain: ['gh-pages', 'index.yaml', 'ghcr.io/oras-project/oras:v1.2.0'],
+      stable: ['pages', 'index.yaml'],
+      prerelease: ['pages-next', 'prerelease/index.yaml'],
+    });
+  });
+
+  it('ghPages.urlStrategy defaults to github-release', () => {
+    expect([
+      new HelmConfig({ chartPath: 'x' }).getGhUrlStrategy(),
+      new HelmConfig({
+        chartPath: 'x',
+        ghPages: { urlStrategy: 'pages' },
+      }).getGhUrlStrategy(),
+    ]).toEqual(['github-release', 'pages']);
+  });
+
+  it('ghPages.path is normalized to a relative directory', () => {
+    const ghPath = (p?: string) =>
+      new HelmConfig({ chartPath: 'x', ghPages: { path: p } }).getGhPath();
+
+    expect([
+      ghPath(),
+      ghPath('charts'),
+      ghPath('./repo/charts/'),
+      ghPath('/'),
+    ]).toEqual(['', 'charts', 'repo/charts', '']);
+  });
+
+  it('commandTimeout: seconds become milliseconds, unset means no limit', () => {
+    const timeout = (commandTimeout?: number) =>
+      new HelmConfig({ chartPath: 'x', commandTimeout }).getCommandTimeout();
+
+    expect([timeout(), timeout(90), timeout(0)]).toEqual([
+      undefined,
+      90000,
+      undefined,
+    ]);
+  });
+
+  it('sign: keyring and passphrase fall back to env', () => {
+    withEnv(
+      { HELM_SIGN_KEYRING_BASE64: 'a2V5', HELM_SIGN_PASSPHRASE: 'secret' },
+      () => {
+        const cfg = new HelmConfig({
+          chartPath: 'x',
+          sign: { key: 'Release Bot' },
+        });
+
+        expect({
+          enabled: [
+            new HelmConfig({ chartPath: 'x' }).isSignEnabled(),
+            cfg.isSignEnabled(),
+          ],
+          key: cfg.getSignKey(),
+          keyring: cfg.getSignKeyring(),
+          base64: cfg.getSignKeyringBase64(),
+          passphrase: cfg.getSignPassphrase(),
+        }).toEqual({
+          enabled: [false, true],
+          key: 'Release Bot',
+          keyring: undefined,
+          base64: 'a2V5',
+          passphrase: 'secret',
+        });
+      },
+    );
+  });
+
+  it('ociRepos: one configuration per enabled target, without shared creds', () => {
+    withEnv({ OCI_PASSWORD: 'env-pass', MIRROR_ENABLED: undefined }, () => {
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        ociRepos: [
+          {
+            repo: 'oci://ghcr.io/org/charts',
+            username: 'bot',
+            password: 'ghcr-token',
+          },
+          { repo: 'oci://harbor.local:8443/charts', insecure: true },
+          { repo: 'oci://mirror.local/charts', enabled: 'MIRROR_ENABLED' },
+          { repo: 'oci://old.local/charts', enabled: false },
+        ],
+      });
+
+      expect({
+        enabled: cfg.isOciEnabled(),
+        targets: cfg.getOciTargets().map((t) => ({
+          hostPort: t.getOciHostPort(),
+          insecure: t.getOciInsecure(),
+          password: t.getOciPassword(),
+        })),
+        secrets: cfg.getSecrets(),
+      }).toEqual({
+        enabled: true,
+        targets: [
+          {
+            hostPort: 'ghcr.io',
+            insecure: false,
+            password: 'ghcr-token',
+          },
+          { hostPort: 'harbor.local:8443', insecure: true, password: '' },
+        ],
+        secrets: ['env-pass', 'ghcr-token'],
+      });
+      expect(
+        withEnv({ MIRROR_ENABLED: 'true' }, () => cfg.getOciTargets().length),
+      ).toBe(3);
+    });
+  });
 });
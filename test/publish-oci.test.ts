@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import type { PublishContext } from 'semantic-release';
+import { publish } from '../src/index.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const logger = { log: () => {}, error: () => {} };
+const DIGEST = `sha256:${'a'.repeat(64)}`;
+
+/**
+ * Create a work directory with a packaged chart in `dist/charts` and
+ * stand-ins for the host `helm` and `oras` binaries. `oras manifest
+ * fetch` prints `fetchError` and fails, other `oras` commands succeed;
+ * `helm push` records the push in `pushed` and reports a digest.
+ */
+function makeWork(base: string, fetchError: string): string {
+  const work = path.join(base, 'work');
+  const staging = path.join(base, 'staging', 'app');
+  fs.mkdirSync(staging, { recursive: true });
+  fs.writeFileSync(
+    path.join(staging, 'Chart.yaml'),
+    'apiVersion: v2\nname: app\nversion: 1.0.0\n',
+  );
+  fs.mkdirSync(path.join(work, 'dist', 'charts'), { recursive: true });
+  execSync(
+    `tar -czf "${path.join(work, 'dist', 'charts', 'app-1.0.0.tgz')}" app`,
+    { cwd: path.dirname(staging) },
+  );
+
+  const bin = path.join(base, 'bin');
+  fs.mkdirSync(bin);
+  fs.writeFileSync(
+    path.join(bin, 'oras'),
+    `#!/bin/sh\n[ "$1" = manifest ] || exit 0\necho '${fetchError}' >&2\nexit 1\n`,
+    { mode: 0o755 },
+  );
+  fs.writeFileSync(
+    path.join(bin, 'helm'),
+    `#!/bin/sh\ntouch "${path.join(base, 'pushed')}"\n` +
+      'echo "Pushed: registry.local:5000/charts/app:1.0.0"\n' +
+      `echo "Digest: ${DIGEST}"\n`,
+    { mode: 0o755 },
+  );
+  return work;
+}
+
+/**
+ * Publish with the native runtime, with the stand-in binaries first on
+ * `PATH`.
+ */
+async function publishNative(base: string, work: string): Promise<unknown> {
+  const saved = process.env.PATH;
+  process.env.PATH = `${path.join(base, 'bin')}:${saved ?? ''}`;
+  try {
+    return await publish(
+      {
+        chartPath: 'app',
+        runtime: 'native',
+        ociRepo: 'oci://registry.local:5000/charts',
+        ociInsecure: true,
+        ghPages: { enabled: false },
+      },
+      {
+        logger,
+        cwd: work,
+        nextRelease: { version: '1.0.0' },
+      } as unknown as PublishContext,
+    );
+  } finally {
+    process.env.PATH = saved;
+  }
+}
+
+describe('publish (OCI, immutable)', () => {
+  it(
+    'pushes a version the registry reports as not found',
+    withTempDir(async (base: string) => {
+      const work = makeWork(
+        base,
+        'Error: registry.local:5000/charts/app:1.0.0: not found',
+      );
+
+      await expect(publishNative(base, work)).resolves.toMatchObject({
+        artifacts: [expect.objectContaining({ digest: DIGEST })],
+      });
+      expect(fs.existsSync(path.join(base, 'pushed'))).toBe(true);
+    }),
+  );
+
+  it(
+    'refuses to push when the lookup fails for another reason',
+    withTempDir(async (base: string) => {
+      const work = makeWork(
+        base,
+        'Error: response status code 503: Service Unavailable',
+      );
+
+      await expect(publishNative(base, work)).rejects.toMatchObject({
+        code: 'EOCILOOKUP',
+        details: expect.stringContaining('503: Service Unavailable'),
+      });
+      expect(fs.existsSync(path.join(base, 'pushed'))).toBe(false);
+    }),
+  );
+});
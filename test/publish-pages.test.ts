@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import type { Context } from 'semantic-release';
+import { publish } from '../src/index.js';
+import { HelmIndexDoc } from '../src/helm-index.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const logger = { log: () => {}, error: () => {} };
+
+/**
+ * Create a repository with a bare `origin` and a packaged chart in
+ * `dist/charts`, as left behind by a signing `prepare`. The archive is
+ * built with tar so no Docker is needed.
+ */
+function makeRepo(base: string, version: string): string {
+  const work = path.join(base, 'work');
+  const remote = path.join(base, 'remote.git');
+  fs.mkdirSync(work);
+  const git = (cmd: string) =>
+    execSync(`git ${cmd}`, { cwd: work, encoding: 'utf8' }).trim();
+
+  execSync(`git init -q --bare "${remote}"`);
+  git('init -q -b main');
+  git('config user.email "ci@example.com"');
+  git('config user.name "CI Tester"');
+  git(`remote add origin "${remote}"`);
+
+  const chartYaml = `apiVersion: v2\nname: app\nversion: ${version}\n`;
+  fs.mkdirSync(path.join(work, 'charts', 'app'), { recursive: true });
+  fs.writeFileSync(path.join(work, 'charts', 'app', 'Chart.yaml'), chartYaml);
+  git('add -A');
+  git('commit -q -m "chore: init"');
+
+  const staging = path.join(base, 'staging', 'app');
+  fs.mkdirSync(staging, { recursive: true });
+  fs.writeFileSync(path.join(staging, 'Chart.yaml'), chartYaml);
+  fs.mkdirSync(path.join(work, 'dist', 'charts'), { recursive: true });
+  const tgz = path.join(work, 'dist', 'charts', `app-${version}.tgz`);
+  execSync(`tar -czf "${tgz}" -C "${path.dirname(staging)}" app`);
+  fs.writeFileSync(`${tgz}.prov`, '-----BEGIN PGP SIGNED MESSAGE-----\n');
+  return work;
+}
+
+describe('publish with the pages URL strategy', () => {
+  it(
+    'copies archives and provenance into ghPages.path below ghPages.url',
+    withTempDir(async (base: string) => {
+      const work = makeRepo(base, '1.2.0-rc.1');
+
+      const release = await publish(
+        {
+          chartPath: 'charts/app',
+          ghPages: {
+            path: 'charts',
+            url: 'https://org.github.io/repo/charts/',
+            urlStrategy: 'pages',
+          },
+        },
+        {
+          cwd: work,
+          logger,
+          nextRelease: { version: '1.2.0-rc.1' },
+        } as unknown as Context,
+      );
+
+      const remote = path.join(base, 'remote.git');
+      const show = (file: string) =>
+        execSync(`git show gh-pages:${file}`, {
+          cwd: remote,
+          encoding: 'utf8',
+        });
+      const index = yaml.parse(show('charts/index.yaml')) as HelmIndexDoc;
+      const files = execSync('git ls-tree -r --name-only gh-pages', {
+        cwd: remote,
+        encoding: 'utf8',
+      });
+
+      expect({
+        files: files.trim().split('\n'),
+        urls: index.entries.app[0].urls,
+      }).toEqual({
+        files: [
+          'charts/app-1.2.0-rc.1.tgz',
+          'charts/app-1.2.0-rc.1.tgz.prov',
+          'charts/index.yaml',
+        ],
+        urls: ['https://org.github.io/repo/charts/app-1.2.0-rc.1.tgz'],
+      });
+      expect(release).toEqual({
+        name: 'Helm chart app 1.2.0-rc.1',
+        url: 'https://org.github.io/repo/charts/app-1.2.0-rc.1.tgz',
+        artifacts: [
+          {
+            name: 'app',
+            version: '1.2.0-rc.1',
+            target: 'gh-pages',
+            url: 'https://org.github.io/repo/charts/app-1.2.0-rc.1.tgz',
+          },
+        ],
+      });
+    }),
+  );
+});
+
+describe('publish with a prerelease index', () => {
+  it.each([
+    { url: 'https://org.github.io/repo/charts', label: 'absolute' },
+    { url: undefined, label: 'relative' },
+  ])(
+    'links $label entry URLs to archives next to the prerelease index',
+    ({ url }) =>
+      withTempDir(async (base: string) => {
+        const work = makeRepo(base, '2.0.0-beta.1');
+
+        await publish(
+          {
+            chartPath: 'charts/app',
+            ghPages: {
+              path: 'charts',
+              url,
+              urlStrategy: 'pages',
+              prereleaseIndex: 'prerelease',
+            },
+          },
+          {
+            cwd: work,
+            logger,
+            nextRelease: { version: '2.0.0-beta.1' },
+          } as unknown as Context,
+        );
+
+        const remote = path.join(base, 'remote.git');
+        const files = execSync('git ls-tree -r --name-only gh-pages', {
+          cwd: remote,
+          encoding: 'utf8',
+        })
+          .trim()
+          .split('\n');
+        const index = yaml.parse(
+          execSync('git show gh-pages:charts/prerelease/index.yaml', {
+            cwd: remote,
+            encoding: 'utf8',
+          }),
+        ) as HelmIndexDoc;
+
+        // resolve each entry URL the way helm does, against the index URL
+        const site = url ?? 'https://org.github.io/repo/charts';
+        const indexUrl = `${site}/prerelease/index.yaml`;
+        const resolved = (index.entries.app[0].urls as string[]).map((u) =>
+          new URL(u, indexUrl).href.slice(`${site}/`.length),
+        );
+        expect(resolved).toEqual(['prerelease/app-2.0.0-beta.1.tgz']);
+        expect(files).toContain('charts/prerelease/app-2.0.0-beta.1.tgz');
+        expect(files).not.toContain('charts/index.yaml');
+      })(),
+  );
+});
+
+describe('publish with immutable versions', () => {
+  const config = {
+    chartPath: 'charts/app',
+    ghPages: { url: 'https://org.github.io/repo', urlStrategy: 'pages' },
+  } as const;
+  const context = (work: string) =>
+    ({
+      cwd: work,
+      logger,
+      nextRelease: { version: '1.0.0' },
+    }) as unknown as Context;
+
+  it(
+    'skips an identical version and rejects a changed one',
+    withTempDir(async (base: string) => {
+      const work = makeRepo(base, '1.0.0');
+      await publish(config, context(work));
+      const remote = path.join(base, 'remote.git');
+      const head = () =>
+        execSync('git rev-parse gh-pages', { cwd: remote, encoding: 'utf8' });
+      const first = head();
+
+      await publish(config, context(work));
+      expect(head()).toBe(first);
+
+      const staging = path.join(base, 'staging');
+      fs.writeFileSync(path.join(staging, 'app', 'NOTES.txt'), 'changed\n');
+      const tgz = path.join(work, 'dist', 'charts', 'app-1.0.0.tgz');
+      execSync(`tar -czf "${tgz}" -C "${staging}" app`);
+      await expect(publish(config, context(work))).rejects.toMatchObject({
+        code: 'EVERSIONEXISTS',
+      });
+      await expect(
+        publish({ ...config, immutable: false }, context(work)),
+      ).resolves.toMatchObject({ name: 'Helm chart app 1.0.0' });
+    }),
+  );
+});
+
+describe('publish with a commit author from the environment', () => {
+  it(
+    'passes quotes and command substitutions to git verbatim',
+    withTempDir(async (base: string) => {
+      const work = makeRepo(base, '1.0.0');
+      const author = `Bot "$(touch pwned)" O'Hara`;
+      const saved = process.env.GIT_AUTHOR_NAME;
+      process.env.GIT_AUTHOR_NAME = author;
+      try {
+        await publish(
+          {
+            chartPath: 'charts/app',
+            ghPages: {
+              url: 'https://org.github.io/repo',
+              urlStrategy: 'pages',
+            },
+          },
+          {
+            cwd: work,
+            logger,
+            nextRelease: { version: '1.0.0' },
+          } as unknown as Context,
+        );
+      } finally {
+        if (saved === undefined) delete process.env.GIT_AUTHOR_NAME;
+        else process.env.GIT_AUTHOR_NAME = saved;
+      }
+
+      const committer = execSync('git log -1 --format=%cn gh-pages', {
+        cwd: path.join(base, 'remote.git'),
+        encoding: 'utf8',
+      }).trim();
+      expect(committer).toBe(author);
+      expect(fs.existsSync(path.join(work, 'pwned'))).toBe(false);
+    }),
+  );
+});
@@ -0,0 +1,15 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { clearSecrets, redact, registerSecrets } from '../src/redact.js';
+
+describe('redact', () => {
+  afterEach(() => clearSecrets());
+
+  it('masks every occurrence of registered secrets', () => {
+    registerSecrets('token', undefined, '', 'token-with-suffix');
+    expect(redact('a=token-with-suffix b=token')).toBe('a=[secure] b=[secure]');
+  });
+
+  it('leaves text unchanged without registered secrets', () => {
+    expect(redact('--password-stdin')).toBe('--password-stdin');
+  });
+});
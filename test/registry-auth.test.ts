@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect } from '@jest/globals';
+// @ts-expect-error semantic-release types are not bundled
+import SemanticReleaseError from '@semantic-release/error';
+import { HelmConfig } from '../src/plugin-config.js';
+import {
+  findRegistryEntry,
+  registryConfigEntry,
+  registryConfigOptions,
+  removeRegistryAuth,
+  resolveOciAuth,
+  writeRegistryAuth,
+} from '../src/registry-auth.js';
+import { clearSecrets } from '../src/redact.js';
+import { withTempDir } from './utils/tmpdir.js';
+import { withEnv } from './utils/withenv.js';
+
+describe('writeRegistryAuth', () => {
+  it(
+    'stages a Docker config for the registry host outside the repository',
+    withTempDir((base: string) => {
+      const file = writeRegistryAuth(
+        { username: 'bot', password: 'token' },
+        'registry.local:5000',
+      );
+
+      expect({
+        outside: path.relative(base, file).startsWith('..'),
+        opts: registryConfigOptions({ kind: 'config', file }, base).env,
+        config: JSON.parse(fs.readFileSync(file, 'utf8')) as unknown,
+        mode: fs.statSync(file).mode & 0o777,
+      }).toEqual({
+        outside: true,
+        opts: [
+          'HELM_REGISTRY_CONFIG=/run/helm-registry/config.json',
+          'DOCKER_CONFIG=/run/helm-registry',
+        ],
+        config: {
+          auths: {
+            'registry.local:5000': {
+              auth: Buffer.from('bot:token').toString('base64'),
+            },
+          },
+        },
+        mode: 0o600,
+      });
+
+      removeRegistryAuth(file);
+      expect(fs.existsSync(path.dirname(file))).toBe(false);
+    }),
+  );
+});
+
+describe('findRegistryEntry', () => {
+  it('prefers credential helpers and matches Docker Hub aliases', () => {
+    expect(
+      findRegistryEntry(
+        {
+          auths: { 'https://index.docker.io/v1/': { auth: 'eA==' } },
+          credHelpers: { '123.dkr.ecr.eu-west-1.amazonaws.com': 'ecr-login' },
+        },
+        'docker.io',
+      ),
+    ).toEqual({ source: 'auths', key: 'https://index.docker.io/v1/' });
+    expect(
+      findRegistryEntry(
+        {
+          auths: { '123.dkr.ecr.eu-west-1.amazonaws.com': { auth: 'eA==' } },
+          credHelpers: { '123.dkr.ecr.eu-west-1.amazonaws.com': 'ecr-login' },
+        },
+        '123.dkr.ecr.eu-west-1.amazonaws.com',
+      ),
+    ).toEqual({
+      source: 'helper',
+      key: '123.dkr.ecr.eu-west-1.amazonaws.com',
+      helper: 'ecr-login',
+    });
+  });
+
+  it('resolves empty auths entries through the credsStore', () => {
+    const config = { auths: { 'ghcr.io': {} }, credsStore: 'desktop' };
+    expect({
+      ghcr: findRegistryEntry(config, 'ghcr.io'),
+      other: findRegistryEntry(config, 'quay.io'),
+      noStore: findRegistryEntry({ auths: { 'ghcr.io': {} } }, 'ghcr.io'),
+    }).toEqual({
+      ghcr: { source: 'helper', key: 'ghcr.io', helper: 'desktop' },
+      other: undefined,
+      noStore: undefined,
+    });
+  });
+});
+
+describe('registryConfigEntry', () => {
+  it(
+    'rejects missing files and files without an entry for the registry',
+    withTempDir((base: string) => {
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        ociRepo: 'oci://ghcr.io/org/charts',
+        ociRegistryConfig: 'docker.json',
+      });
+
+      expect(() => registryConfigEntry(cfg, base)).toThrow(
+        expect.objectContaining({ code: 'ENOREGISTRYCONFIG' }),
+      );
+      fs.writeFileSync(
+        path.join(base, 'docker.json'),
+        JSON.stringify({ auths: { 'quay.io': { auth: 'eA==' } } }),
+      );
+      expect(() => registryConfigEntry(cfg, base)).toThrow(
+        expect.objectContaining({ code: 'ENOREGISTRYAUTH' }),
+      );
+    }),
+  );
+});
+
+describe('resolveOciAuth', () => {
+  it(
+    'mounts stored credentials read-only',
+    withTempDir((base: string) => {
+      const file = path.join(base, 'config.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ auths: { 'ghcr.io': { auth: 'eA==' } } }),
+      );
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        ociRepo: 'oci://ghcr.io/org/charts',
+        ociRegistryConfig: file,
+      });
+
+      const auth = resolveOciAuth(cfg, base);
+      expect({ auth, opts: registryConfigOptions(auth, base) }).toEqual({
+        auth: { kind: 'config', file },
+        opts: {
+          mounts: [
+            { host: base, container: '/apps', readonly: false },
+            {
+              host: file,
+              container: '/run/helm-registry/config.json',
+              readonly: true,
+            },
+          ],
+          env: [
+            'HELM_REGISTRY_CONFIG=/run/helm-registry/config.json',
+            'DOCKER_CONFIG=/run/helm-registry',
+          ],
+        },
+      });
+    }),
+  );
+
+  it(
+    'logs in with credentials from a credential helper',
+    withTempDir((base: string) => {
+      fs.writeFileSync(
+        path.join(base, 'config.json'),
+        JSON.stringify({ credHelpers: { 'ghcr.io': 'gh' } }),
+      );
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        ociRepo: 'oci://ghcr.io/org/charts',
+        ociRegistryConfig: 'config.json',
+        ociUsername: 'ignored',
+        ociPassword: 'ignored',
+      });
+      const calls: string[] = [];
+
+      try {
+        const auth = resolveOciAuth(cfg, base, (helper, server) => {
+          calls.push(`${helper} ${server}`);
+          return { username: 'bot', password: 'helper-token' };
+        });
+        expect({ auth, calls }).toEqual({
+          auth: { kind: 'login', username: 'bot', password: 'helper-token' },
+          calls: ['gh ghcr.io'],
+        });
+      } finally {
+        clearSecrets();
+      }
+    }),
+  );
+
+  it(
+    'gives the credential helper the command timeout',
+    withTempDir((base: string) => {
+      fs.writeFileSync(
+        path.join(base, 'config.json'),
+        JSON.stringify({ credHelpers: { 'ghcr.io': 'gh' } }),
+      );
+      const cfg = new HelmConfig({
+        chartPath: 'x',
+        ociRepo: 'oci://ghcr.io/org/charts',
+        ociRegistryConfig: 'config.json',
+        commandTimeout: 2,
+      });
+      const timeouts: (number | undefined)[] = [];
+
+      expect(() =>
+        resolveOciAuth(cfg, base, (_helper, _server, timeout) => {
+          timeouts.push(timeout);
+          throw new SemanticReleaseError(
+            'Command timed out.',
+            'ECOMMANDTIMEOUT',
+            'docker-credential-gh get did not finish within 2000 ms.',
+          );
+        }),
+      ).toThrow(expect.objectContaining({ code: 'ECOMMANDTIMEOUT' }));
+      expect(timeouts).toEqual([2000]);
+    }),
+  );
+
+  it('falls back to username and password, then to no login', () => {
+    const withCreds = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://ghcr.io/org/charts',
+      ociUsername: 'bot',
+      ociPassword: 'token',
+    });
+    const anonymous = new HelmConfig({
+      chartPath: 'x',
+      ociRepo: 'oci://ghcr.io/org/charts',
+    });
+
+    expect(
+      withEnv({ OCI_USERNAME: undefined, OCI_PASSWORD: undefined }, () => ({
+        withCreds: resolveOciAuth(withCreds, '/repo'),
+        anonymous: resolveOciAuth(anonymous, '/repo'),
+      })),
+    ).toEqual({
+      withCreds: { kind: 'login', username: 'bot', password: 'token' },
+      anonymous: { kind: 'none' },
+    });
+  });
+});
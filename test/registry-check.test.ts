@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import { HelmConfig } from '../src/plugin-config.js';
+import {
+  classifyRegistryFailure,
+  registryCheckScript,
+  verifyRegistry,
+} from '../src/registry-check.js';
+import type { DockerImageOptions } from '../src/docker/image.js';
+
+const logger = { log: () => {}, error: () => {} };
+const cfg = new HelmConfig({
+  chartPath: 'x',
+  ociRepo: 'oci://registry.local:5000/charts',
+  ociInsecure: true,
+});
+const login = { kind: 'login', username: 'bot', password: 'pw' } as const;
+
+function failing(status: number, stdout: string) {
+  return async () => {
+    throw Object.assign(new Error('Command failed'), { status, stdout });
+  };
+}
+
+describe('classifyRegistryFailure', () => {
+  it('separates rejected credentials, missing endpoints and network errors', () => {
+    expect([
+      classifyRegistryFailure('Error: response status code 401: unauthorized'),
+      classifyRegistryFailure('GET /v2/_catalog: 404 page not found'),
+      classifyRegistryFailure('dial tcp: lookup nope: no such host'),
+    ]).toEqual(['auth', 'unsupported', 'unreachable']);
+  });
+});
+
+describe('registryCheckScript', () => {
+  it('logs in from stdin before listing the catalog', () => {
+    expect(registryCheckScript(login)).toBe(
+      '{ printf %s "$OCI_PASSWORD" | oras login ' +
+        '${OCI_INSECURE:+--plain-http} --username="$OCI_USERNAME" ' +
+        '--password-stdin "$OCI_REGISTRY" 2>&1 || exit 3; } && ' +
+        '{ oras repo ls ${OCI_INSECURE:+--plain-http} "$OCI_REGISTRY" ' +
+        '2>&1 || exit 4; }',
+    );
+  });
+
+  it('pings the repository with a registry config before the catalog', () => {
+    expect(
+      registryCheckScript({ kind: 'config', file: '/tmp/config.json' }),
+    ).toBe(
+      '{ oras repo tags ${OCI_INSECURE:+--plain-http} "$OCI_REPOSITORY" ' +
+        '2>&1 || exit 5; } && ' +
+        '{ oras repo ls ${OCI_INSECURE:+--plain-http} "$OCI_REGISTRY" ' +
+        '2>&1 || exit 4; }',
+    );
+  });
+});
+
+describe('verifyRegistry', () => {
+  it('passes the credentials and registry as variables', async () => {
+    const seen: DockerImageOptions[] = [];
+    const hostile = { ...login, username: 'bot$(touch pwned)' };
+    await verifyRegistry(
+      cfg,
+      hostile,
+      '/repo',
+      logger,
+      async (script, opts) => {
+        expect(script).not.toContain('bot');
+        seen.push(opts);
+        return 'charts/app';
+      },
+    );
+    expect(seen[0]).toMatchObject({
+      env: [
+        'OCI_REGISTRY=registry.local:5000',
+        'OCI_INSECURE=1',
+        'OCI_USERNAME=bot$(touch pwned)',
+        'OCI_REPOSITORY=registry.local:5000/charts',
+      ],
+      secretEnv: { OCI_PASSWORD: 'pw' },
+    });
+  });
+
+  it('fails with EOCIAUTH when the login is rejected', async () => {
+    await expect(
+      verifyRegistry(
+        cfg,
+        login,
+        '/repo',
+        logger,
+        failing(3, 'Error: 401 Unauthorized'),
+      ),
+    ).rejects.toMatchObject({ code: 'EOCIAUTH' });
+  });
+
+  it('fails with EOCIAUTH when the registry config is refused on ping', async () => {
+    await expect(
+      verifyRegistry(
+        cfg,
+        { kind: 'config', file: '/tmp/config.json' },
+        '/repo',
+        logger,
+        failing(5, 'Error: response status code 401: unauthorized'),
+      ),
+    ).rejects.toMatchObject({ code: 'EOCIAUTH' });
+  });
+
+  it('only notes a catalog refused after a successful login', async () => {
+    const lines: string[] = [];
+    await expect(
+      verifyRegistry(
+        cfg,
+        login,
+        '/repo',
+        { ...logger, log: (line: string) => lines.push(line) },
+        failing(4, 'Error: response status code 401: unauthorized'),
+      ),
+    ).resolves.toBeUndefined();
+    expect(lines).toEqual([
+      'verifyConditions: registry registry.local:5000 is reachable; ' +
+        'catalog not available (auth)',
+    ]);
+  });
+
+  it('fails with EOCIUNREACHABLE when the registry does not answer', async () => {
+    await expect(
+      verifyRegistry(
+        cfg,
+        { kind: 'none' },
+        '/repo',
+        logger,
+        failing(4, 'dial tcp 127.0.0.1:5000: connect: connection refused'),
+      ),
+    ).rejects.toMatchObject({ code: 'EOCIUNREACHABLE' });
+  });
+
+  it('accepts registries without a public catalog', async () => {
+    await expect(
+      Promise.all([
+        verifyRegistry(
+          cfg,
+          login,
+          '/repo',
+          logger,
+          failing(4, '404 not found'),
+        ),
+        verifyRegistry(
+          cfg,
+          { kind: 'none' },
+          '/repo',
+          logger,
+          failing(4, 'unauthorized: authentication required'),
+        ),
+      ]),
+    ).resolves.toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildRelease } from '../src/release-info.js';
+
+describe('buildRelease', () => {
+  it('prefers the OCI url and lists each chart version once', () => {
+    const release = buildRelease(
+      [
+        {
+          name: 'app',
+          version: '1.0.0',
+          target: 'gh-pages',
+          url: 'https://example.com/app-1.0.0.tgz',
+        },
+        {
+          name: 'app',
+          version: '1.0.0',
+          target: 'oci',
+          url: 'oci://ghcr.io/org/app@sha256:abc',
+          digest: 'sha256:abc',
+        },
+      ],
+      'beta',
+    );
+    expect(release).toMatchObject({
+      name: 'Helm chart app 1.0.0',
+      url: 'oci://ghcr.io/org/app@sha256:abc',
+      channel: 'beta',
+    });
+  });
+
+  it('pluralizes the name and omits unset fields', () => {
+    const release = buildRelease([
+      { name: 'api', version: '2.0.0', target: 'gh-pages' },
+      { name: 'web', version: '1.1.0', target: 'gh-pages' },
+    ]);
+    expect(release).toEqual({
+      name: 'Helm charts api 2.0.0, web 1.1.0',
+      artifacts: release.artifacts,
+    });
+  });
+});
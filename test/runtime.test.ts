@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { HelmConfig } from '../src/plugin-config.js';
+import { NativeClient } from '../src/docker/native-client.js';
+import { DockerCliClient } from '../src/docker/cli-client.js';
+import type { ContainerEngine } from '../src/docker/client.js';
+import {
+  clientFor,
+  nativeTools,
+  resetRuntime,
+  resolveEngine,
+  resolveRuntime,
+} from '../src/runtime.js';
+
+describe('resolveRuntime', () => {
+  afterEach(resetRuntime);
+
+  it('keeps explicit runtimes and detects an engine once for auto', () => {
+    const asked: string[][] = [];
+    const detect = (candidates: ContainerEngine[]) => {
+      asked.push(candidates);
+      return undefined;
+    };
+    const auto = new HelmConfig({ chartPath: 'x', runtime: 'auto' });
+
+    expect([
+      resolveRuntime(new HelmConfig({ chartPath: 'x' }), detect),
+      resolveRuntime(
+        new HelmConfig({ chartPath: 'x', runtime: 'native' }),
+        detect,
+      ),
+      resolveRuntime(auto, detect),
+      resolveRuntime(auto, detect),
+      asked,
+    ]).toEqual([
+      'docker',
+      'native',
+      'native',
+      'native',
+      [['docker', 'podman', 'nerdctl']],
+    ]);
+  });
+
+  it('only probes the configured engine, within the command timeout', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      containerEngine: 'podman',
+      commandTimeout: 30,
+    });
+    const timeouts: (number | undefined)[] = [];
+    expect(
+      resolveEngine(cfg, (candidates, timeout) => {
+        timeouts.push(timeout);
+        return { name: candidates[0], rootless: true };
+      }),
+    ).toEqual({ name: 'podman', rootless: true });
+    expect(timeouts).toEqual([30000]);
+  });
+});
+
+describe('clientFor', () => {
+  afterEach(resetRuntime);
+
+  it('maps the configured images to host binaries', () => {
+    const cfg = new HelmConfig({
+      chartPath: 'x',
+      runtime: 'native',
+      helmImage: 'helm:custom',
+    });
+    expect({
+      tools: nativeTools(cfg),
+      native: clientFor(cfg) instanceof NativeClient,
+      docker:
+        clientFor(new HelmConfig({ chartPath: 'x' })) instanceof
+        DockerCliClient,
+    }).toEqual({
+      tools: {
+        'helm:custom': 'helm',
+        'jnorwood/helm-docs:v1.14.2': 'helm-docs',
+        'ghcr.io/oras-project/oras:v1.2.0': 'oras',
+        'gcr.io/projectsigstore/cosign:v2.4.1': 'cosign',
+      },
+      native: true,
+      docker: true,
+    });
+  });
+});
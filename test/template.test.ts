@@ -0,0 +1,18 @@
+import { expect, test } from '@jest/globals';
+import { renderTemplate } from '../src/template.js';
+
+test('renderTemplate substitutes known placeholders', () => {
+  expect(renderTemplate('v${version}', { version: '1.2.3' })).toBe('v1.2.3');
+  expect(
+    renderTemplate('${ name }-${version}.tgz', {
+      name: 'app',
+      version: '1.0.0',
+    }),
+  ).toBe('app-1.0.0.tgz');
+});
+
+test('renderTemplate keeps unknown placeholders verbatim', () => {
+  expect(renderTemplate('${version}-${sha}', { version: '1.0.0' })).toBe(
+    '1.0.0-${sha}',
+  );
+});
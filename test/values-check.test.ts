@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'node:child_process';
+import { describe, it, expect } from '@jest/globals';
+import type { PrepareContext } from 'semantic-release';
+import { prepare } from '../src/index.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const logger = { log: () => {}, error: () => {} };
+
+/**
+ * Create a repository whose `app` chart was released as `v1.0.0` and
+ * whose working tree then dropped a key from values.yaml.
+ */
+function makeReleasedRepo(base: string): void {
+  const git = (cmd: string) => execSync(`git ${cmd}`, { cwd: base });
+  const chartDir = path.join(base, 'app');
+  fs.mkdirSync(chartDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(chartDir, 'Chart.yaml'),
+    'apiVersion: v2\nname: app\nversion: 1.0.0\n',
+    'utf8',
+  );
+  fs.writeFileSync(
+    path.join(chartDir, 'values.yaml'),
+    'image:\n  tag: "1.0"\n  pullPolicy: Always\n',
+    'utf8',
+  );
+  git('init -q -b main');
+  git('config user.email "ci@example.com"');
+  git('config user.name "CI Tester"');
+  git('add -A');
+  git('commit -q -m "feat: init"');
+  git('tag v1.0.0');
+  fs.writeFileSync(
+    path.join(chartDir, 'values.yaml'),
+    'image:\n  tag: "1.0"\n',
+    'utf8',
+  );
+}
+
+describe('prepare values compatibility check', () => {
+  it(
+    'rejects removed values keys in a minor release before bumping',
+    withTempDir(async (base: string) => {
+      makeReleasedRepo(base);
+      const ctx = {
+        logger,
+        cwd: base,
+        lastRelease: { version: '1.0.0', gitTag: 'v1.0.0' },
+        nextRelease: { version: '1.1.0', type: 'minor' },
+      } as unknown as PrepareContext;
+
+      await expect(prepare({ chartPath: 'app' }, ctx)).rejects.toMatchObject({
+        code: 'EBREAKINGVALUES',
+      });
+      expect(
+        fs.readFileSync(path.join(base, 'app', 'Chart.yaml'), 'utf8'),
+      ).toContain('version: 1.0.0');
+    }),
+  );
+});
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect } from '@jest/globals';
+import { applyValuesUpdates } from '../src/values-updates.js';
+import { withTempDir } from './utils/tmpdir.js';
+
+const VALUES = [
+  '# Default values',
+  'image:',
+  '  repository: app',
+  '  tag: "1.0.0" # pinned by release',
+  'sidecar:',
+  '  image:',
+  '    tag: v1.0.0',
+  '',
+].join('\n');
+
+describe('applyValuesUpdates', () => {
+  it(
+    'rewrites templated paths and keeps comments',
+    withTempDir((base: string) => {
+      fs.writeFileSync(path.join(base, 'values.yaml'), VALUES);
+
+      const touched = applyValuesUpdates(
+        base,
+        [
+          { path: 'image.tag', value: '${version}', file: 'values.yaml' },
+          {
+            path: 'sidecar.image.tag',
+            value: 'v${appVersion}',
+            file: 'values.yaml',
+          },
+        ],
+        { version: '1.1.0', appVersion: '2.0.0' },
+      );
+
+      expect({
+        touched,
+        text: fs.readFileSync(path.join(base, 'values.yaml'), 'utf8'),
+      }).toEqual({
+        touched: ['values.yaml'],
+        text: VALUES.replace('"1.0.0"', '"1.1.0"').replace('v1.0.0', 'v2.0.0'),
+      });
+    }),
+  );
+
+  it(
+    'reports nothing when values already match',
+    withTempDir((base: string) => {
+      fs.writeFileSync(path.join(base, 'values.yaml'), VALUES);
+
+      expect(
+        applyValuesUpdates(
+          base,
+          [{ path: 'image.tag', value: '${version}', file: 'values.yaml' }],
+          { version: '1.0.0' },
+        ),
+      ).toEqual([]);
+    }),
+  );
+
+  it(
+    'rejects missing files and paths',
+    withTempDir((base: string) => {
+      fs.writeFileSync(path.join(base, 'values.yaml'), VALUES);
+      const apply = (file: string, keyPath: string) => () =>
+        applyValuesUpdates(
+          base,
+          [{ path: keyPath, value: '${version}', file }],
+          { version: '1.1.0' },
+        );
+
+      expect(apply('other.yaml', 'image.tag')).toThrow(/not found/);
+      expect(apply('values.yaml', 'image.digest')).toThrow(/not found/);
+    }),
+  );
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals';
+import * as yaml from 'yaml';
+import { setYamlValue } from '../src/yaml-edit.js';
+
+describe('setYamlValue', () => {
+  it('replaces a plain scalar and keeps surrounding comments', () => {
+    const source = '# header\nname: app # inline\nversion: 1.0.0 # bump me\n';
+    expect(setYamlValue(source, ['version'], '1.1.0')).toBe(
+      '# header\nname: app # inline\nversion: 1.1.0 # bump me\n',
+    );
+  });
+
+  it('keeps single and double quoting styles', () => {
+    const source = 'a: \'x\'\nb: "y"\n';
+    expect(setYamlValue(source, ['a'], "it's")).toBe("a: 'it''s'\nb: \"y\"\n");
+    expect(setYamlValue(source, ['b'], 'z')).toBe('a: \'x\'\nb: "z"\n');
+  });
+
+  it('quotes plain values that would change type', () => {
+    const out = setYamlValue('appVersion: v1\n', ['appVersion'], '1.10');
+    expect(out).toBe('appVersion: "1.10"\n');
+    expect(yaml.parse(out)).toEqual({ appVersion: '1.10' });
+  });
+
+  it('fills an empty value', () => {
+    expect(setYamlValue('tag:\nx: 1\n', ['tag'], '2.0.0')).toBe(
+      'tag: 2.0.0\nx: 1\n',
+    );
+  });
+
+  it('appends a missing top-level key', () => {
+    expect(setYamlValue('name: app # c', ['appVersion'], '1.0')).toBe(
+      'name: app # c\nappVersion: "1.0"\n',
+    );
+  });
+
+  it('sets nested keys through the document API', () => {
+    const out = setYamlValue(
+      '# values\nimage:\n  repository: app\n',
+      ['image', 'tag'],
+      '1.2.3',
+    );
+    expect(out.startsWith('# values\n')).toBe(true);
+    expect(yaml.parse(out)).toEqual({
+      image: { repository: 'app', tag: '1.2.3' },
+    });
+  });
+
+  it('returns the source unchanged when the value is equal', () => {
+    const source = "version: '1.0.0'  # same\n";
+    expect(setYamlValue(source, ['version'], '1.0.0')).toBe(source);
+  });
+
+  it('rejects invalid YAML', () => {
+    expect(() => setYamlValue('a: [', ['a'], 'b')).toThrow(/Invalid YAML/);
+  });
+});